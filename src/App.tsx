@@ -12,6 +12,9 @@ import { Dashboard } from "./pages/Dashboard";
 import { InterviewDetail } from "./pages/InterviewDetail";
 import { UserProfile } from "./pages/UserProfile";
 import { Analytics } from "./pages/Analytics";
+import { Templates } from "./pages/Templates";
+import { SharedInterview } from "./pages/SharedInterview";
+import { AcceptInvitation } from "./pages/AcceptInvitation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +48,13 @@ const App = () => (
               <Analytics />
             </ProtectedRoute>
           } />
+          <Route path="/templates" element={
+            <ProtectedRoute>
+              <Templates />
+            </ProtectedRoute>
+          } />
+          <Route path="/s/:token" element={<SharedInterview />} />
+          <Route path="/invite/:token" element={<AcceptInvitation />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
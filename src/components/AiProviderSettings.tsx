@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AI_PROVIDERS, getAiProvider } from '@/lib/ai-models';
+import { Brain, Save } from 'lucide-react';
+
+interface AiProviderSettingsProps {
+  userId: string;
+}
+
+// Deployment default: the provider set in the edge function secrets
+const DEFAULT_PROVIDER = 'default';
+
+export const AiProviderSettings = ({ userId }: AiProviderSettingsProps) => {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<string>(DEFAULT_PROVIDER);
+  const [model, setModel] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('ai_provider, ai_model')
+        .eq('user_id', userId)
+        .single();
+
+      if (!error && data) {
+        setProvider(data.ai_provider || DEFAULT_PROVIDER);
+        setModel(data.ai_model || '');
+      }
+      setLoading(false);
+    };
+    load();
+  }, [userId]);
+
+  const selected = getAiProvider(provider);
+
+  const changeProvider = (value: string) => {
+    setProvider(value);
+    setModel(getAiProvider(value)?.models[0] ?? '');
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({
+          ai_provider: selected ? selected.id : null,
+          ai_model: selected ? model.trim() || null : null,
+        })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      toast({
+        title: "AI provider saved",
+        description: selected
+          ? `New analyses will use ${selected.label}${model.trim() ? ` (${model.trim()})` : ''}.`
+          : "New analyses will use the default provider.",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save the AI provider',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-border space-y-4">
+      <div className="flex items-center gap-3">
+        <Brain className="h-5 w-5 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">AI Provider</h3>
+          <p className="text-sm text-muted-foreground">
+            Choose where interview transcripts are sent for analysis.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Provider</Label>
+          <Select value={provider} onValueChange={changeProvider}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PROVIDER}>Default</SelectItem>
+              {AI_PROVIDERS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+        </div>
+
+        {selected && (
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">{selected.modelLabel}</Label>
+            {selected.models.length > 0 ? (
+              <Select value={model} onValueChange={setModel}>
+                <SelectTrigger id="ai-model">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.models.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="ai-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={selected.id === 'azure-openai' ? 'e.g. gpt-4o-mini-prod' : 'e.g. llama3.1'}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={save} disabled={saving} className="gap-2">
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save AI Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface AnalysisFailedProps {
+  errorMessage: string | null;
+  rawResponse: string | null;
+  model: string | null;
+}
+
+export const AnalysisFailed = ({ errorMessage, rawResponse, model }: AnalysisFailedProps) => {
+  const [showRaw, setShowRaw] = useState(false);
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-5 w-5" />
+          Analysis failed
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-foreground">
+          The AI did not return a usable analysis for this interview, so no results were saved.
+        </p>
+        {errorMessage && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{errorMessage}</p>
+        )}
+        {model && (
+          <p className="text-xs text-muted-foreground">Model: {model}</p>
+        )}
+        {rawResponse && (
+          <Collapsible open={showRaw} onOpenChange={setShowRaw}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-1 px-0">
+                {showRaw ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                Raw AI response
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <pre className="mt-2 max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-words">
+                {rawResponse}
+              </pre>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
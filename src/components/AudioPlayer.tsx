@@ -1,9 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { useToast } from '@/hooks/use-toast';
 import { 
   Play, 
   Pause, 
@@ -11,44 +10,101 @@ import {
   SkipForward, 
   Volume2, 
   VolumeX,
-  RotateCcw,
   FileText,
   Download
 } from 'lucide-react';
+import { downloadInterviewFile, playbackUrl } from '@/lib/interview-media';
 
 interface AudioPlayerProps {
-  audioUrl: string;
+  // Path of the recording in the audio bucket; URLs are signed from it on demand
+  storagePath: string;
   fileName: string;
-  onTranscriptUpdate?: (transcript: string) => void;
+  // Called as playback advances, so a transcript can follow along
+  onTimeUpdate?: (seconds: number) => void;
 }
 
-export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPlayerProps) => {
+export interface AudioPlayerHandle {
+  seek: (seconds: number, play?: boolean) => void;
+}
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ storagePath, fileName, onTimeUpdate }, ref) => {
   const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Where to carry on once a fresh URL replaces an expired one
+  const resumeAt = useRef<{ time: number; play: boolean } | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
-  const [showTranscript, setShowTranscript] = useState(false);
-  const { toast } = useToast();
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  const loadUrl = useCallback(async () => {
+    try {
+      setAudioUrl(await playbackUrl(storagePath));
+      setLoadError(null);
+    } catch (error: unknown) {
+      setLoadError(error instanceof Error ? error.message : 'Could not load the recording');
+    }
+  }, [storagePath]);
+  const loadUrlRef = useRef(loadUrl);
+  loadUrlRef.current = loadUrl;
+
+  useEffect(() => {
+    loadUrl();
+  }, [loadUrl]);
+
+  useImperativeHandle(ref, () => ({
+    seek: (seconds: number, play = false) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = seconds;
+      setCurrentTime(seconds);
+      if (play) audio.play();
+    },
+  }), []);
 
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    const updateTime = () => setCurrentTime(audio.currentTime);
-    const updateDuration = () => setDuration(audio.duration);
-    const handleEnded = () => setIsPlaying(false);
+    const updateTime = () => {
+      setCurrentTime(audio.currentTime);
+      onTimeUpdateRef.current?.(audio.currentTime);
+    };
+    const updateDuration = () => {
+      setDuration(audio.duration);
+      if (resumeAt.current) {
+        audio.currentTime = resumeAt.current.time;
+        if (resumeAt.current.play) audio.play();
+        resumeAt.current = null;
+      }
+    };
+    // Signed URLs expire; fetch a new one once and pick up at the same spot
+    const handleError = () => {
+      if (resumeAt.current) return;
+      resumeAt.current = { time: audio.currentTime, play: !audio.paused };
+      loadUrlRef.current();
+    };
+    // Follow the element itself so seek(…, true) and the media keys keep the button in sync
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
 
     audio.addEventListener('timeupdate', updateTime);
     audio.addEventListener('loadedmetadata', updateDuration);
-    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('error', handleError);
 
     return () => {
       audio.removeEventListener('timeupdate', updateTime);
       audio.removeEventListener('loadedmetadata', updateDuration);
-      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('error', handleError);
     };
   }, []);
 
@@ -60,7 +116,6 @@ export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPla
     } else {
       audioRef.current.play();
     }
-    setIsPlaying(!isPlaying);
   };
 
   const handleSeek = (value: number[]) => {
@@ -68,6 +123,7 @@ export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPla
     const newTime = value[0];
     audioRef.current.currentTime = newTime;
     setCurrentTime(newTime);
+    onTimeUpdate?.(newTime);
   };
 
   const handleVolumeChange = (value: number[]) => {
@@ -116,13 +172,12 @@ export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPla
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const downloadAudio = () => {
-    const link = document.createElement('a');
-    link.href = audioUrl;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const downloadAudio = async () => {
+    try {
+      await downloadInterviewFile(storagePath, fileName);
+    } catch (error: unknown) {
+      setLoadError(error instanceof Error ? error.message : 'Could not download the recording');
+    }
   };
 
   return (
@@ -137,7 +192,8 @@ export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPla
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <audio ref={audioRef} src={audioUrl} preload="metadata" />
+        <audio ref={audioRef} src={audioUrl ?? undefined} preload="metadata" />
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
         
         {/* Progress Bar */}
         <div className="space-y-2">
@@ -191,19 +247,9 @@ export const AudioPlayer = ({ audioUrl, fileName, onTranscriptUpdate }: AudioPla
             </Button>
           </div>
         </div>
-
-        {/* Transcript Toggle */}
-        <div className="pt-4 border-t">
-          <Button
-            variant="outline"
-            onClick={() => setShowTranscript(!showTranscript)}
-            className="w-full"
-          >
-            <FileText className="h-4 w-4 mr-2" />
-            {showTranscript ? 'Hide' : 'Show'} Transcript
-          </Button>
-        </div>
       </CardContent>
     </Card>
   );
-}; 
\ No newline at end of file
+});
+
+AudioPlayer.displayName = 'AudioPlayer';
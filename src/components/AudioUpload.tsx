@@ -1,5 +1,5 @@
-import { useState, useCallback } from 'react';
-import { Upload, FileAudio, X, AlertCircle, CheckCircle } from 'lucide-react';
+import { useState, useCallback, useRef } from 'react';
+import { Upload, FileAudio, X, AlertCircle, CheckCircle, Pause, Play } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -7,40 +7,37 @@ import { Checkbox } from './ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Progress } from './ui/progress';
+import { type UploadHandle } from '@/lib/resumable-upload';
+import {
+  acceptAttribute,
+  AUDIO_EXTENSIONS,
+  MAX_UNSEGMENTED_SIZE_MB,
+  MAX_UPLOAD_SIZE_MB,
+  missingDetails,
+  SEGMENTABLE_EXTENSIONS,
+  uploadFileProblem,
+  uploadInterview,
+} from '@/lib/interview-upload';
+import { TemplatePicker } from '@/components/TemplatePicker';
 
 interface AudioUploadProps {
   onUploadComplete?: () => void;
 }
 
-const ACCEPTED_AUDIO_TYPES = ['.mp3', '.wav', '.m4a', '.mp4', '.webm'];
-const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
-
 export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const uploadHandle = useRef<UploadHandle | null>(null);
   const [candidateName, setCandidateName] = useState('');
   const [positionTitle, setPositionTitle] = useState('');
   const [interviewDate, setInterviewDate] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [consentObtained, setConsentObtained] = useState(false);
   const { toast } = useToast();
 
-  const validateFile = (file: File): string | null => {
-    // Check file type
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!ACCEPTED_AUDIO_TYPES.includes(fileExtension)) {
-      return `Invalid file type. Please upload: ${ACCEPTED_AUDIO_TYPES.join(', ')}`;
-    }
-
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      return `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB`;
-    }
-
-    return null;
-  };
-
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -70,7 +67,7 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
   }, []);
 
   const handleFileSelection = (file: File) => {
-    const validationError = validateFile(file);
+    const validationError = uploadFileProblem(file, AUDIO_EXTENSIONS);
     if (validationError) {
       toast({
         title: "Invalid file",
@@ -88,15 +85,17 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
     setCandidateName('');
     setPositionTitle('');
     setInterviewDate('');
+    setTemplateId(null);
     setConsentObtained(false);
     setUploadProgress(0);
   };
 
   const handleUpload = async () => {
-    if (!selectedFile || !consentObtained) {
+    const details = { candidateName, positionTitle, interviewDate, consentObtained };
+    if (!selectedFile || !consentObtained || missingDetails(details)) {
       toast({
         title: "Missing information",
-        description: "Please select a file and confirm consent",
+        description: "Please select a file, fill in the candidate and position, and confirm consent",
         variant: "destructive",
       });
       return;
@@ -111,67 +110,52 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
         throw new Error('User not authenticated');
       }
 
-      // Create unique file path
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      // Upload file to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('interview-audio')
-        .upload(fileName, selectedFile, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('interview-audio')
-        .getPublicUrl(fileName);
-
-      // Create interview record
-      const { data: interviewData, error: insertError } = await supabase
-        .from('interviews')
-        .insert({
-          user_id: user.id,
-          file_name: selectedFile.name,
-          file_size: selectedFile.size,
-          file_url: publicUrl,
-          candidate_name: candidateName || null,
-          position_title: positionTitle || null,
-          interview_date: interviewDate || null,
-          consent_obtained: consentObtained,
-          status: 'uploading',
-          retention_until: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] // 1 year from now
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
+      await uploadInterview({
+        userId: user.id,
+        file: selectedFile,
+        details,
+        templateId,
+        onProgress: (bytesUploaded, bytesTotal) => {
+          setUploadProgress(Math.round((bytesUploaded / bytesTotal) * 100));
+        },
+        onUploadStarted: (handle) => {
+          uploadHandle.current = handle;
+        },
+      });
 
       setUploadProgress(100);
 
       toast({
         title: "Upload successful!",
-        description: "Your interview has been uploaded and will be processed shortly.",
+        description: "Your interview has been uploaded and is being processed.",
       });
 
       resetForm();
       onUploadComplete?.();
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('Upload error:', error);
       toast({
         title: "Upload failed",
-        description: error.message || "There was an error uploading your file.",
+        description: error instanceof Error ? error.message : "There was an error uploading your file.",
         variant: "destructive",
       });
     } finally {
+      uploadHandle.current = null;
+      setIsPaused(false);
       setIsUploading(false);
     }
   };
 
+  const togglePause = () => {
+    if (isPaused) {
+      uploadHandle.current?.resume();
+    } else {
+      uploadHandle.current?.pause();
+    }
+    setIsPaused(!isPaused);
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -210,7 +194,7 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
         <div className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="candidate-name">Candidate Name (Optional)</Label>
+              <Label htmlFor="candidate-name">Candidate Name</Label>
               <Input
                 id="candidate-name"
                 placeholder="Enter candidate name"
@@ -219,7 +203,7 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="position-title">Position Title (Optional)</Label>
+              <Label htmlFor="position-title">Position Title</Label>
               <Input
                 id="position-title"
                 placeholder="Enter position title"
@@ -239,6 +223,12 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
             />
           </div>
 
+          <TemplatePicker
+            positionTitle={positionTitle}
+            value={templateId}
+            onChange={setTemplateId}
+          />
+
           {/* Consent Checkbox */}
           <div className="flex items-start space-x-2 p-4 bg-muted/50 rounded-lg border">
             <Checkbox
@@ -263,7 +253,7 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
           <Button 
             onClick={handleUpload} 
             className="w-full" 
-            disabled={!consentObtained}
+            disabled={!consentObtained || missingDetails({ candidateName, positionTitle })}
           >
             Upload Interview
           </Button>
@@ -279,10 +269,14 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
           <FileAudio className="h-6 w-6 text-primary animate-pulse" />
         </div>
         <div>
-          <h3 className="font-medium text-foreground mb-2">Uploading Interview...</h3>
+          <h3 className="font-medium text-foreground mb-2">{isPaused ? 'Upload Paused' : 'Uploading Interview...'}</h3>
           <Progress value={uploadProgress} className="w-full max-w-xs mx-auto" />
           <p className="text-sm text-muted-foreground mt-2">{uploadProgress}% complete</p>
         </div>
+        <Button variant="outline" size="sm" onClick={togglePause}>
+          {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+          {isPaused ? 'Resume' : 'Pause'}
+        </Button>
       </div>
     );
   }
@@ -301,7 +295,7 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
     >
       <input
         type="file"
-        accept={ACCEPTED_AUDIO_TYPES.join(',')}
+        accept={acceptAttribute(AUDIO_EXTENSIONS)}
         onChange={handleFileInput}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
       />
@@ -324,8 +318,11 @@ export const AudioUpload = ({ onUploadComplete }: AudioUploadProps) => {
         </div>
         
         <div className="text-xs text-muted-foreground space-y-1">
-          <p>Supported formats: {ACCEPTED_AUDIO_TYPES.join(', ')}</p>
-          <p>Maximum file size: {MAX_FILE_SIZE / (1024 * 1024)}MB</p>
+          <p>Supported formats: {AUDIO_EXTENSIONS.map((extension) => `.${extension}`).join(', ')}</p>
+          <p>
+            Maximum file size: {MAX_UPLOAD_SIZE_MB}MB for {SEGMENTABLE_EXTENSIONS.map((extension) => `.${extension}`).join(', ')},
+            {' '}{MAX_UNSEGMENTED_SIZE_MB}MB for other formats
+          </p>
         </div>
       </div>
     </div>
@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useInterviewProgress } from '@/hooks/useInterviewProgress';
+import {
+  createBatchItem,
+  isBatchItemComplete,
+  MAX_CONCURRENT_UPLOADS,
+  runWithConcurrency,
+  uploadBatchItem,
+  type BatchItem,
+} from '@/lib/batch-upload';
+import { acceptAttribute, uploadFileProblem } from '@/lib/interview-upload';
+import { loadTemplateDefaults, resolveTemplateId, type TemplateDefaults } from '@/lib/templates';
+import { CheckCircle, FileAudio, FileText, Files, RotateCcw, Upload, X, AlertCircle } from 'lucide-react';
+import { isTranscriptFile } from '@/lib/transcript';
+
+interface BatchUploadProps {
+  // Called when every file has been uploaded or has failed
+  onBatchComplete?: (interviewIds: string[]) => void;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  uploaded: 'Queued',
+  transcribing: 'Transcribing',
+  analyzing: 'Analyzing',
+  saving: 'Saving',
+  completed: 'Analyzed',
+  failed: 'Failed',
+};
+
+// Where an uploaded file's interview is in the pipeline, live
+const ProcessingStatus = ({ interviewId }: { interviewId: string }) => {
+  const { progress } = useInterviewProgress(interviewId);
+  const stage = progress?.processing_stage ?? 'uploaded';
+
+  return (
+    <Link to={`/interview/${interviewId}`} title={progress?.processing_error ?? undefined}>
+      <Badge variant={stage === 'failed' ? 'destructive' : stage === 'completed' ? 'default' : 'secondary'}>
+        {STAGE_LABELS[stage] ?? stage}
+      </Badge>
+    </Link>
+  );
+};
+
+export const BatchUpload = ({ onBatchComplete }: BatchUploadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [finished, setFinished] = useState(false);
+  // Each file is analysed with the user's default template for its position
+  const [templateDefaults, setTemplateDefaults] = useState<TemplateDefaults>({ defaultTemplateId: null, byPosition: {} });
+
+  useEffect(() => {
+    if (!user) return;
+    loadTemplateDefaults(user.id)
+      .then(setTemplateDefaults)
+      .catch(() => undefined);
+  }, [user]);
+
+  const updateItem = (key: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  const addFiles = useCallback((files: FileList | File[]) => {
+    const accepted: BatchItem[] = [];
+    const rejected: string[] = [];
+
+    Array.from(files).forEach((file) => {
+      const problem = uploadFileProblem(file);
+      if (problem) {
+        rejected.push(`${file.name}: ${problem}`);
+      } else {
+        accepted.push(createBatchItem(file));
+      }
+    });
+
+    if (rejected.length > 0) {
+      toast({
+        title: `${rejected.length} file${rejected.length === 1 ? '' : 's'} skipped`,
+        description: rejected.join('; '),
+        variant: 'destructive',
+      });
+    }
+
+    setFinished(false);
+    setItems((prev) => [...prev, ...accepted]);
+  }, [toast]);
+
+  const handleDrag = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setIsDragging(true);
+    } else if (e.type === 'dragleave') {
+      setIsDragging(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    if (e.dataTransfer.files?.length) {
+      addFiles(e.dataTransfer.files);
+    }
+  }, [addFiles]);
+
+  const runBatch = async (toUpload: BatchItem[]) => {
+    if (!user || toUpload.length === 0) return;
+
+    const incomplete = toUpload.filter((item) => !isBatchItemComplete(item));
+    if (incomplete.length > 0) {
+      toast({
+        title: 'Missing information',
+        description: `Add a candidate name and position for ${incomplete.map((item) => item.file.name).join(', ')}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRunning(true);
+    setFinished(false);
+    toUpload.forEach((item) => updateItem(item.key, { status: 'ready', progress: 0, error: null }));
+
+    const uploadedIds: string[] = [];
+    await runWithConcurrency(toUpload, MAX_CONCURRENT_UPLOADS, async (item) => {
+      updateItem(item.key, { status: 'uploading' });
+      try {
+        const interviewId = await uploadBatchItem({
+          userId: user.id,
+          item,
+          templateId: resolveTemplateId(templateDefaults, item.positionTitle),
+          onInterviewCreated: (interviewId) => updateItem(item.key, { interviewId }),
+          onProgress: (progress) => updateItem(item.key, { progress }),
+        });
+        uploadedIds.push(interviewId);
+        updateItem(item.key, { status: 'uploaded', progress: 100, interviewId });
+      } catch (error: unknown) {
+        updateItem(item.key, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Upload failed',
+        });
+      }
+    });
+
+    setRunning(false);
+    setFinished(true);
+    onBatchComplete?.(uploadedIds);
+  };
+
+  const startBatch = () => runBatch(items.filter((item) => item.status === 'ready'));
+  const retryFailed = () => runBatch(items.filter((item) => item.status === 'failed'));
+
+  const clearBatch = () => {
+    setItems([]);
+    setFinished(false);
+  };
+
+  const uploaded = items.filter((item) => item.status === 'uploaded').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+  const ready = items.filter((item) => item.status === 'ready').length;
+  const editable = (item: BatchItem) => !running && (item.status === 'ready' || item.status === 'failed');
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          isDragging ? 'border-primary bg-primary/10' : 'border-muted-foreground/25 hover:border-primary/50'
+        }`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+      >
+        <Files className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+        <p className="font-medium mb-1">Drop several interview files here</p>
+        <p className="text-sm text-muted-foreground mb-3">
+          Names, positions and dates are filled in from the file names where possible.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={acceptAttribute()}
+          onChange={(e) => {
+            if (e.target.files?.length) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={running}>
+          Select Files
+        </Button>
+      </div>
+
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.key} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {isTranscriptFile(item.file.name)
+                    ? <FileText className="h-4 w-4 text-primary shrink-0" />
+                    : <FileAudio className="h-4 w-4 text-primary shrink-0" />}
+                  <span className="text-sm font-medium truncate">{item.file.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {(item.file.size / 1024 / 1024).toFixed(1)} MB
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {item.status === 'uploading' && <Badge variant="secondary">Uploading</Badge>}
+                  {item.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                  {item.status === 'uploaded' && item.interviewId && <ProcessingStatus interviewId={item.interviewId} />}
+                  {editable(item) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItems((prev) => prev.filter((other) => other.key !== item.key))}
+                      title="Remove from batch"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <Input
+                  value={item.candidateName}
+                  onChange={(e) => updateItem(item.key, { candidateName: e.target.value })}
+                  placeholder="Candidate name"
+                  disabled={!editable(item)}
+                  aria-label={`Candidate name for ${item.file.name}`}
+                />
+                <Input
+                  value={item.positionTitle}
+                  onChange={(e) => updateItem(item.key, { positionTitle: e.target.value })}
+                  placeholder="Position"
+                  disabled={!editable(item)}
+                  aria-label={`Position for ${item.file.name}`}
+                />
+                <Input
+                  type="date"
+                  value={item.interviewDate}
+                  onChange={(e) => updateItem(item.key, { interviewDate: e.target.value })}
+                  disabled={!editable(item)}
+                  aria-label={`Interview date for ${item.file.name}`}
+                />
+              </div>
+
+              {item.status === 'uploading' && <Progress value={item.progress} className="h-1" />}
+              {item.status === 'failed' && item.error && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {item.error}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {finished && (
+        <div className={`p-4 rounded-lg border ${failed > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="font-medium flex items-center gap-2">
+            <CheckCircle className={`h-4 w-4 ${failed > 0 ? 'text-amber-700' : 'text-green-600'}`} />
+            Batch finished: {uploaded} uploaded{failed > 0 && `, ${failed} failed`}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Uploaded interviews are being processed; their status updates above as they move along.
+          </p>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={startBatch} disabled={running || ready === 0} className="flex-1">
+            <Upload className="h-4 w-4 mr-2" />
+            {running ? 'Uploading...' : `Upload ${ready} File${ready === 1 ? '' : 's'}`}
+          </Button>
+          {failed > 0 && !running && (
+            <Button variant="outline" onClick={retryFailed}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry Failed
+            </Button>
+          )}
+          {!running && (
+            <Button variant="ghost" onClick={clearBatch}>
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { Upload, FileText, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { parseTranscriptFile, TRANSCRIPT_FILE_EXTENSIONS } from '@/lib/transcript-parsers';
 
 interface FileUploadProps {
   onFileContent: (content: string, filename: string) => void;
@@ -23,20 +24,21 @@ export const FileUpload = ({ onFileContent, isProcessing }: FileUploadProps) =>
     }
   }, []);
 
-  const handleFile = useCallback((file: File) => {
-    if (file.type !== 'text/plain' && !file.name.endsWith('.txt')) {
+  const handleFile = useCallback(async (file: File) => {
+    const extension = file.name.toLowerCase().split('.').pop() || '';
+    if (file.type !== 'text/plain' && !TRANSCRIPT_FILE_EXTENSIONS.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a .txt file containing the transcript.",
+        description: "Please upload a transcript file (.txt, .vtt, .srt or Teams .docx).",
         variant: "destructive",
       });
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (content.trim().length === 0) {
+    try {
+      // Meeting exports are flattened to "Speaker: text" turns
+      const { text } = await parseTranscriptFile(file);
+      if (text.trim().length === 0) {
         toast({
           title: "Empty file",
           description: "The uploaded file appears to be empty.",
@@ -45,16 +47,14 @@ export const FileUpload = ({ onFileContent, isProcessing }: FileUploadProps) =>
         return;
       }
       setUploadedFile(file.name);
-      onFileContent(content, file.name);
-    };
-    reader.onerror = () => {
+      onFileContent(text, file.name);
+    } catch (error: unknown) {
       toast({
         title: "Error reading file",
-        description: "There was an error reading the uploaded file.",
+        description: error instanceof Error ? error.message : "There was an error reading the uploaded file.",
         variant: "destructive",
       });
-    };
-    reader.readAsText(file);
+    }
   }, [onFileContent, toast]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -119,7 +119,7 @@ export const FileUpload = ({ onFileContent, isProcessing }: FileUploadProps) =>
     >
       <input
         type="file"
-        accept=".txt"
+        accept=".txt,.vtt,.srt,.docx"
         onChange={handleFileInput}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         disabled={isProcessing}
@@ -135,7 +135,7 @@ export const FileUpload = ({ onFileContent, isProcessing }: FileUploadProps) =>
             Upload Transcript File
           </h3>
           <p className="text-muted-foreground mb-4">
-            Drop your .txt transcript file here or click to browse
+            Drop your transcript file here or click to browse
           </p>
           <Button variant="outline" disabled={isProcessing}>
             Choose File
@@ -143,7 +143,7 @@ export const FileUpload = ({ onFileContent, isProcessing }: FileUploadProps) =>
         </div>
         
         <p className="text-xs text-muted-foreground">
-          Supported format: .txt files only
+          Supported formats: .txt, .vtt, .srt and Teams .docx
         </p>
       </div>
     </div>
@@ -8,6 +8,11 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Upload, FileText, FileAudio, X } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { jobProgress } from '@/lib/processing-jobs';
+import { acceptAttribute, missingDetails, uploadFileProblem, uploadInterview } from '@/lib/interview-upload';
+import { isTranscriptFile } from '@/lib/transcript';
+import { useProcessingJob } from '@/hooks/useProcessingJob';
+import { TemplatePicker } from '@/components/TemplatePicker';
 
 interface FileUploadComponentProps {
   onUploadComplete: (interviewId: string) => void;
@@ -24,8 +29,10 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
   const [candidateName, setCandidateName] = useState('');
   const [positionTitle, setPositionTitle] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [selectedTemplate, setSelectedTemplate] = useState<any>(null);
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [consentObtained, setConsentObtained] = useState(false);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
+  const { job: processingJob } = useProcessingJob(processingJobId);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -58,37 +65,11 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
   };
 
   const handleFile = (file: File) => {
-    const maxSize = 100 * 1024 * 1024; // 100MB
-    const allowedTypes = [
-      'text/plain',
-      'audio/mpeg',          // .mp3
-      'audio/wav',           // .wav
-      'audio/mp4',           // .mp4, .m4a
-      'audio/x-m4a',         // .m4a (alternative MIME type)
-      'audio/aac',           // .aac
-      'audio/ogg',           // .ogg
-      'audio/webm',          // .webm
-      'audio/flac',          // .flac
-      'audio/x-wav'          // .wav (alternative MIME type)
-    ];
-
-    // Additional file extension check for .m4a since MIME types can vary
-    const fileExtension = file.name.toLowerCase().split('.').pop();
-    const allowedExtensions = ['txt', 'mp3', 'wav', 'mp4', 'm4a', 'aac', 'ogg', 'webm', 'flac'];
-
-    if (file.size > maxSize) {
-      toast({
-        title: 'File too large',
-        description: 'Please select a file smaller than 100MB.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension || '')) {
+    const problem = uploadFileProblem(file);
+    if (problem) {
       toast({
-        title: 'Invalid file type',
-        description: 'Please select a text file (.txt) or audio file (.mp3, .wav, .m4a, .mp4, .aac, .ogg, .webm, .flac).',
+        title: 'Invalid file',
+        description: problem,
         variant: 'destructive',
       });
       return;
@@ -98,7 +79,8 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
   };
 
   const uploadFile = async () => {
-    if (!selectedFile || !candidateName.trim() || !positionTitle.trim() || !consentObtained) {
+    const details = { candidateName, positionTitle, consentObtained };
+    if (!selectedFile || missingDetails(details) || !consentObtained) {
       toast({
         title: 'Missing information',
         description: 'Please fill in all fields, select a file, and confirm consent.',
@@ -111,84 +93,40 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
     setUploadProgress(0);
 
     try {
-      // Get current session first to ensure proper authentication
       const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      
-      console.log('Current session:', session);
-      console.log('Session error:', sessionError);
-      
       if (sessionError || !session?.user) {
         throw new Error('No active session. Please sign in again.');
       }
 
-      const user = session.user;
-      console.log('Authenticated user:', user.id);
-
-      // Create interview record first
-      const { data: interview, error: interviewError } = await supabase
-        .from('interviews')
-        .insert({
-          user_id: user.id,
-          file_name: selectedFile.name,
-          file_size: selectedFile.size,
-          candidate_name: candidateName.trim(),
-          position_title: positionTitle.trim(),
-          consent_obtained: consentObtained,
-          status: 'uploading'
-        })
-        .select()
-        .single();
-
-      console.log('Interview insert result:', { interview, interviewError });
-
-      if (interviewError || !interview) {
-        throw new Error('Failed to create interview record');
-      }
-
-      // Upload file to storage
-      const fileName = `${interview.id}-${selectedFile.name}`;
-      const { error: uploadError } = await supabase.storage
-        .from('interview-audio')
-        .upload(fileName, selectedFile);
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      // Update interview with file URL
-      const { data: fileUrl } = supabase.storage
-        .from('interview-audio')
-        .getPublicUrl(fileName);
-
-      await supabase
-        .from('interviews')
-        .update({
-          file_url: fileUrl.publicUrl,
-          status: 'uploaded'
-        })
-        .eq('id', interview.id);
+      const { interviewId, job } = await uploadInterview({
+        userId: session.user.id,
+        file: selectedFile,
+        details,
+        templateId,
+        onProgress: (bytesUploaded, bytesTotal) => {
+          setUploadProgress(Math.round((bytesUploaded / bytesTotal) * 100));
+        },
+      });
+      setProcessingJobId(job.id);
 
-      setUploadProgress(100);
-      
       toast({
-        title: 'Upload successful',
-        description: 'Your file has been uploaded successfully.',
+        title: 'Processing started',
+        description: isTranscriptFile(selectedFile.name)
+          ? 'Your interview transcript is being analyzed by AI.'
+          : 'Your audio is being transcribed and analyzed by AI.',
       });
 
-      // Process the uploaded file
-      await processUploadedFile(interview, selectedFile);
-
       // Reset form
       setSelectedFile(null);
       setCandidateName('');
       setPositionTitle('');
-      setSelectedTemplate(null);
+      setTemplateId(null);
       setConsentObtained(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
 
-      onUploadComplete(interview.id);
+      onUploadComplete(interviewId);
 
     } catch (error) {
       console.error('Upload error:', error);
@@ -203,100 +141,6 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
     }
   };
 
-  const processUploadedFile = async (interview: any, file: File) => {
-    try {
-      if (file.name.endsWith('.txt')) {
-        // For text files, read content and process immediately
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          const transcript = e.target?.result as string;
-          
-          try {
-            const { data, error } = await supabase.functions.invoke('process-interview', {
-              body: {
-                interviewId: interview.id,
-                transcript: transcript,
-                templateId: selectedTemplate?.id || null,
-              },
-            });
-
-            if (error) throw error;
-
-            toast({
-              title: "Processing started",
-              description: "Your interview transcript is being analyzed by AI.",
-            });
-          } catch (error: any) {
-            console.error('Processing error:', error);
-            toast({
-              title: "Processing failed",
-              description: error.message || "Failed to start AI analysis.",
-              variant: "destructive",
-            });
-          }
-        };
-        reader.readAsText(file);
-      } else if (file.type.startsWith('audio/') || file.name.endsWith('.m4a')) {
-        // For audio files, convert to base64 and send for transcription
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          try {
-            const arrayBuffer = e.target?.result as ArrayBuffer;
-            const uint8Array = new Uint8Array(arrayBuffer);
-            let binary = '';
-            for (let i = 0; i < uint8Array.byteLength; i++) {
-              binary += String.fromCharCode(uint8Array[i]);
-            }
-            const base64Audio = btoa(binary);
-
-            console.log('Sending audio for transcription, size:', base64Audio.length);
-
-            const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-              body: {
-                interviewId: interview.id,
-                audioData: base64Audio,
-              },
-            });
-
-            if (error) throw error;
-
-            toast({
-              title: "Audio processing started",
-              description: "Your audio is being transcribed and analyzed by AI.",
-            });
-          } catch (error: any) {
-            console.error('Audio processing error:', error);
-            toast({
-              title: "Processing failed",
-              description: error.message || "Failed to process audio file.",
-              variant: "destructive",
-            });
-            
-            // Update status to failed
-            await supabase
-              .from('interviews')
-              .update({ status: 'failed' })
-              .eq('id', interview.id);
-          }
-        };
-        reader.readAsArrayBuffer(file);
-      } else {
-        toast({
-          title: "File type not supported",
-          description: "Please upload a .txt or audio file.",
-          variant: "destructive",
-        });
-      }
-    } catch (error: any) {
-      console.error('File processing error:', error);
-      toast({
-        title: "Processing failed",
-        description: error.message || "Failed to process the file.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const clearFile = () => {
     setSelectedFile(null);
     if (fileInputRef.current) {
@@ -374,12 +218,12 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
                 Drop your file here, or click to browse
               </p>
               <p className="text-sm text-muted-foreground mb-4">
-                Supports .txt files and audio files (.mp3, .wav, .m4a, .mp4, .aac, .ogg, .webm, .flac)
+                Supports transcripts (.txt, .vtt, .srt, Teams .docx) and audio files (.mp3, .wav, .m4a, .mp4, .aac, .ogg, .webm, .flac)
               </p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".txt,.mp3,.wav,.m4a,.mp4,.aac,.ogg,.webm,.flac"
+                accept={acceptAttribute()}
                 onChange={handleFileSelect}
                 className="hidden"
                 disabled={uploading || isProcessing}
@@ -394,6 +238,12 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
             </div>
           )}
 
+          <TemplatePicker
+            positionTitle={positionTitle}
+            value={templateId}
+            onChange={setTemplateId}
+          />
+
           {/* Consent Checkbox */}
           <div className="flex items-start space-x-3 p-4 border rounded-lg bg-muted/50">
             <Checkbox
@@ -426,10 +276,26 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
             </div>
           )}
 
+          {/* Processing Status */}
+          {processingJob && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm">
+                  {processingJob.status === 'completed' ? 'Analysis complete' :
+                   processingJob.status === 'failed' ? `Processing failed: ${processingJob.last_error || 'unknown error'}` :
+                   processingJob.stage === 'transcription' ? 'Transcribing audio...' :
+                   'Analyzing transcript...'}
+                </span>
+                <span className="text-sm">{jobProgress(processingJob)}%</span>
+              </div>
+              <Progress value={jobProgress(processingJob)} className="h-2" />
+            </div>
+          )}
+
           {/* Upload Button */}
           <Button
             onClick={uploadFile}
-            disabled={!selectedFile || uploading || isProcessing || !candidateName.trim() || !positionTitle.trim() || !consentObtained}
+            disabled={!selectedFile || uploading || isProcessing || missingDetails({ candidateName, positionTitle }) || !consentObtained}
             className="w-full"
           >
             {uploading ? 'Uploading...' : 'Upload Interview'}
@@ -4,6 +4,7 @@ import { Badge } from './ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { downloadInterviewFile, removeInterviewFile } from '@/lib/interview-media';
 import { 
   FileAudio, 
   Calendar, 
@@ -27,7 +28,7 @@ interface Interview {
   user_id: string;
   file_name: string;
   file_size: number | null;
-  file_url: string | null;
+  storage_path: string | null;
   candidate_name: string | null;
   position_title: string | null;
   interview_date: string | null;
@@ -93,13 +94,8 @@ export const InterviewsList = ({ interviews, onUpdate, compact = false }: Interv
 
     try {
       // Delete from storage if file exists
-      if (interview.file_url) {
-        const filePath = interview.file_url.split('/').pop();
-        if (filePath) {
-          await supabase.storage
-            .from('interview-audio')
-            .remove([`${interview.user_id}/${filePath}`]);
-        }
+      if (interview.storage_path) {
+        await removeInterviewFile(interview.storage_path);
       }
 
       // Delete from database
@@ -132,31 +128,17 @@ export const InterviewsList = ({ interviews, onUpdate, compact = false }: Interv
   };
 
   const handleDownload = async (interview: Interview) => {
-    if (!interview.file_url) {
+    if (!interview.storage_path) {
       toast({
         title: "Download unavailable",
-        description: "File URL not found",
+        description: "This interview has no stored file",
         variant: "destructive",
       });
       return;
     }
 
     try {
-      const { data, error } = await supabase.storage
-        .from('interview-audio')
-        .download(interview.file_url.split('/').slice(-2).join('/'));
-
-      if (error) throw error;
-
-      // Create download link
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = interview.file_name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadInterviewFile(interview.storage_path, interview.file_name);
 
       toast({
         title: "Download started",
@@ -219,7 +201,7 @@ export const InterviewsList = ({ interviews, onUpdate, compact = false }: Interv
                     <Eye className="h-4 w-4 mr-2" />
                     View Details
                   </DropdownMenuItem>
-                  {interview.file_url && (
+                  {interview.storage_path && (
                     <DropdownMenuItem onClick={() => handleDownload(interview)}>
                       <Download className="h-4 w-4 mr-2" />
                       Download
@@ -274,7 +256,7 @@ export const InterviewsList = ({ interviews, onUpdate, compact = false }: Interv
                       <Eye className="h-4 w-4 mr-2" />
                       View Details
                     </DropdownMenuItem>
-                    {interview.file_url && (
+                    {interview.storage_path && (
                       <DropdownMenuItem onClick={() => handleDownload(interview)}>
                         <Download className="h-4 w-4 mr-2" />
                         Download
@@ -1,155 +1,127 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { useToast } from '@/hooks/use-toast';
-import { 
-  Upload, 
-  Brain, 
-  Target, 
-  CheckCircle, 
+import { useInterviewProgress } from '@/hooks/useInterviewProgress';
+import { PIPELINE_STAGES, type ProcessingStage } from '@/lib/processing-stage';
+import {
+  Upload,
+  Brain,
+  Target,
+  CheckCircle,
   Clock,
   Sparkles,
   Zap,
-  ArrowRight
+  ArrowRight,
+  Hourglass,
+  AlertTriangle
 } from 'lucide-react';
 
 interface ProgressStep {
-  id: string;
+  stage: ProcessingStage;
   title: string;
   description: string;
   icon: React.ComponentType<{ className?: string }>;
-  status: 'pending' | 'active' | 'completed' | 'error';
-  duration?: number;
-  progress?: number;
+  tip: string;
 }
 
+type StepStatus = 'pending' | 'active' | 'completed' | 'error';
+
 interface ProgressTrackerProps {
   interviewId?: string;
   onComplete?: () => void;
   onError?: (error: string) => void;
 }
 
-export const ProgressTracker = ({ 
-  interviewId, 
-  onComplete, 
-  onError 
+// One step per stage the server reports, in pipeline order
+const STEPS: ProgressStep[] = [
+  {
+    stage: 'uploading',
+    title: 'Uploading File',
+    description: 'Uploading your interview file to our secure servers',
+    icon: Upload,
+    tip: "Your file is being securely uploaded to our servers.",
+  },
+  {
+    stage: 'uploaded',
+    title: 'Queued',
+    description: 'Waiting for a processing worker to pick up your interview',
+    icon: Hourglass,
+    tip: "You can close this tab; processing continues on our servers.",
+  },
+  {
+    stage: 'transcribing',
+    title: 'Transcribing Audio',
+    description: 'Converting audio to text using advanced speech recognition',
+    icon: Brain,
+    tip: "Our AI is converting speech to text with high accuracy.",
+  },
+  {
+    stage: 'analyzing',
+    title: 'AI Analysis',
+    description: 'Analyzing interview content for key insights and patterns',
+    icon: Target,
+    tip: "We're analyzing patterns and extracting key insights.",
+  },
+  {
+    stage: 'saving',
+    title: 'Generating Report',
+    description: 'Creating your structured analysis report',
+    icon: CheckCircle,
+    tip: "Almost done! Your report is being generated.",
+  },
+];
+
+const stageIndex = (stage: string | null) => PIPELINE_STAGES.indexOf(stage as ProcessingStage);
+
+export const ProgressTracker = ({
+  interviewId,
+  onComplete,
+  onError
 }: ProgressTrackerProps) => {
-  const { toast } = useToast();
-  const [steps, setSteps] = useState<ProgressStep[]>([
-    {
-      id: 'upload',
-      title: 'Uploading File',
-      description: 'Uploading your interview file to our secure servers',
-      icon: Upload,
-      status: 'pending',
-      duration: 3000
-    },
-    {
-      id: 'transcribe',
-      title: 'Transcribing Audio',
-      description: 'Converting audio to text using advanced speech recognition',
-      icon: Brain,
-      status: 'pending',
-      duration: 8000
-    },
-    {
-      id: 'analyze',
-      title: 'AI Analysis',
-      description: 'Analyzing interview content for key insights and patterns',
-      icon: Target,
-      status: 'pending',
-      duration: 12000
-    },
-    {
-      id: 'complete',
-      title: 'Generating Report',
-      description: 'Creating your structured analysis report',
-      icon: CheckCircle,
-      status: 'pending',
-      duration: 3000
-    }
-  ]);
-
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [overallProgress, setOverallProgress] = useState(0);
-  const [estimatedTime, setEstimatedTime] = useState(0);
-
-  const startProgress = useCallback(() => {
-    let stepIndex = 0;
-    let totalProgress = 0;
-
-    const processStep = () => {
-      if (stepIndex >= steps.length) {
-        // All steps completed
-        setOverallProgress(100);
-        onComplete?.();
-        return;
-      }
-
-      const currentStep = steps[stepIndex];
-      setCurrentStepIndex(stepIndex);
-      
-      // Update step status
-      setSteps(prev => prev.map((step, index) => ({
-        ...step,
-        status: index === stepIndex ? 'active' : 
-                index < stepIndex ? 'completed' : 'pending'
-      })));
-
-      // Simulate step progress
-      const stepDuration = currentStep.duration || 5000;
-      const progressInterval = 100; // Update every 100ms
-      const progressIncrement = (progressInterval / stepDuration) * 100;
-      
-      let stepProgress = 0;
-      const progressTimer = setInterval(() => {
-        stepProgress += progressIncrement;
-        if (stepProgress >= 100) {
-          stepProgress = 100;
-          clearInterval(progressTimer);
-          
-          // Mark step as completed
-          setSteps(prev => prev.map((step, index) => ({
-            ...step,
-            status: index === stepIndex ? 'completed' : step.status
-          })));
+  const { progress, error: loadError } = useInterviewProgress(interviewId ?? null);
+  const stage = progress?.processing_stage ?? null;
+  // 'failed' replaces the stage it happened in, so remember the last one seen
+  const [lastActiveStage, setLastActiveStage] = useState<string | null>(null);
+  const reportedStage = useRef<string | null>(null);
 
-          // Move to next step
-          stepIndex++;
-          totalProgress += (100 / steps.length);
-          setOverallProgress(totalProgress);
-          
-          setTimeout(processStep, 500); // Small delay between steps
-        } else {
-          setSteps(prev => prev.map((step, index) => ({
-            ...step,
-            progress: index === stepIndex ? stepProgress : step.progress
-          })));
-        }
-      }, progressInterval);
-
-      // Update estimated time
-      const remainingSteps = steps.length - stepIndex;
-      const remainingTime = remainingSteps * 5; // Average 5 seconds per step
-      setEstimatedTime(remainingTime);
-
-    };
-
-    processStep();
-  }, [steps.length, onComplete]);
+  useEffect(() => {
+    if (stage && stage !== 'failed') setLastActiveStage(stage);
+  }, [stage]);
 
+  // Tell the parent once per outcome, not on every re-render
   useEffect(() => {
-    if (interviewId) {
-      startProgress();
+    if (!stage || reportedStage.current === stage) return;
+    reportedStage.current = stage;
+
+    if (stage === 'completed') {
+      onComplete?.();
+    } else if (stage === 'failed') {
+      onError?.(progress?.processing_error || 'Processing failed');
     }
-  }, [interviewId, startProgress]);
+  }, [stage, progress?.processing_error, onComplete, onError]);
+
+  const isFailed = stage === 'failed';
+  const isCompleted = stage === 'completed';
+  const currentIndex = stageIndex(isFailed ? lastActiveStage : stage);
+  const overallProgress = isCompleted
+    ? 100
+    : Math.max(0, Math.round((currentIndex / (PIPELINE_STAGES.length - 1)) * 100));
+
+  const stepStatus = (step: ProgressStep): StepStatus => {
+    const index = stageIndex(step.stage);
+    if (isCompleted || index < currentIndex) return 'completed';
+    if (index === currentIndex) return isFailed ? 'error' : 'active';
+    return 'pending';
+  };
 
-  const getStepIcon = (step: ProgressStep) => {
+  const activeStep = STEPS.find((step) => stepStatus(step) === 'active');
+
+  const getStepIcon = (step: ProgressStep, status: StepStatus) => {
     const Icon = step.icon;
-    
-    switch (step.status) {
+
+    switch (status) {
       case 'completed':
         return <CheckCircle className="h-6 w-6 text-green-600" />;
       case 'active':
@@ -161,13 +133,6 @@ export const ProgressTracker = ({
     }
   };
 
-  const formatTime = (seconds: number) => {
-    if (seconds < 60) return `${seconds}s`;
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}m ${remainingSeconds}s`;
-  };
-
   return (
     <Card className="w-full max-w-lg mx-auto">
       <CardHeader>
@@ -178,81 +143,86 @@ export const ProgressTracker = ({
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
             <span>Overall Progress</span>
-            <span>{Math.round(overallProgress)}%</span>
+            <span>{overallProgress}%</span>
           </div>
           <Progress value={overallProgress} className="h-2" />
-          {estimatedTime > 0 && (
+          {progress?.processing_stage_at && (
             <p className="text-xs text-muted-foreground flex items-center gap-1">
               <Clock className="h-3 w-3" />
-              Estimated time remaining: {formatTime(estimatedTime)}
+              Last update: {new Date(progress.processing_stage_at).toLocaleTimeString()}
             </p>
           )}
+          {loadError && (
+            <p className="text-xs text-red-600">Could not load the processing status: {loadError}</p>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {steps.map((step, index) => (
-          <div
-            key={step.id}
-            className={`flex items-center gap-4 p-3 rounded-lg transition-colors ${
-              step.status === 'active' ? 'bg-primary/10 border border-primary/20' :
-              step.status === 'completed' ? 'bg-green-50 border border-green-200' :
-              'bg-muted/50'
-            }`}
-          >
-            <div className="flex-shrink-0">
-              {getStepIcon(step)}
-            </div>
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center justify-between">
+        {STEPS.map((step) => {
+          const status = stepStatus(step);
+          return (
+            <div
+              key={step.stage}
+              className={`flex items-center gap-4 p-3 rounded-lg transition-colors ${
+                status === 'active' ? 'bg-primary/10 border border-primary/20' :
+                status === 'completed' ? 'bg-green-50 border border-green-200' :
+                status === 'error' ? 'bg-red-50 border border-red-200' :
+                'bg-muted/50'
+              }`}
+            >
+              <div className="flex-shrink-0">
+                {getStepIcon(step, status)}
+              </div>
+              <div className="flex-1 min-w-0">
                 <h4 className="font-medium text-sm">{step.title}</h4>
-                {step.status === 'active' && step.progress !== undefined && (
-                  <span className="text-xs text-muted-foreground">
-                    {Math.round(step.progress)}%
-                  </span>
-                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {step.description}
+                </p>
+              </div>
+              <div className="flex-shrink-0">
+                <Badge
+                  variant={
+                    status === 'completed' ? 'default' :
+                    status === 'active' ? 'secondary' :
+                    status === 'error' ? 'destructive' :
+                    'outline'
+                  }
+                  className="text-xs"
+                >
+                  {status === 'completed' ? 'Done' :
+                   status === 'active' ? 'Processing' :
+                   status === 'error' ? 'Failed' :
+                   'Pending'}
+                </Badge>
               </div>
-              <p className="text-xs text-muted-foreground mt-1">
-                {step.description}
-              </p>
-              {step.status === 'active' && step.progress !== undefined && (
-                <Progress value={step.progress} className="h-1 mt-2" />
-              )}
-            </div>
-            <div className="flex-shrink-0">
-              <Badge
-                variant={
-                  step.status === 'completed' ? 'default' :
-                  step.status === 'active' ? 'secondary' :
-                  'outline'
-                }
-                className="text-xs"
-              >
-                {step.status === 'completed' ? 'Done' :
-                 step.status === 'active' ? 'Processing' :
-                 'Pending'}
-              </Badge>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         {/* Tips Section */}
-        {currentStepIndex < steps.length && (
+        {activeStep && (
           <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
             <h4 className="font-medium text-sm text-blue-900 mb-2 flex items-center gap-1">
               <Zap className="h-4 w-4" />
               Pro Tip
             </h4>
-            <p className="text-xs text-blue-700">
-              {currentStepIndex === 0 && "Your file is being securely uploaded to our servers."}
-              {currentStepIndex === 1 && "Our AI is converting speech to text with high accuracy."}
-              {currentStepIndex === 2 && "We're analyzing patterns and extracting key insights."}
-              {currentStepIndex === 3 && "Almost done! Your report is being generated."}
+            <p className="text-xs text-blue-700">{activeStep.tip}</p>
+          </div>
+        )}
+
+        {/* Failure Message */}
+        {isFailed && (
+          <div className="mt-6 p-4 bg-red-50 rounded-lg border border-red-200 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-600 mx-auto mb-2" />
+            <h4 className="font-medium text-red-900">Processing Failed</h4>
+            <p className="text-sm text-red-700 mt-1">
+              {progress?.processing_error || 'Something went wrong while processing your interview.'}
             </p>
           </div>
         )}
 
         {/* Completion Message */}
-        {overallProgress === 100 && (
+        {isCompleted && (
           <div className="mt-6 p-4 bg-green-50 rounded-lg border border-green-200 text-center">
             <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
             <h4 className="font-medium text-green-900">Analysis Complete!</h4>
@@ -268,4 +238,4 @@ export const ProgressTracker = ({
       </CardContent>
     </Card>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TemplatePicker } from '@/components/TemplatePicker';
+import { useToast } from '@/hooks/use-toast';
+import { AI_PROVIDERS, getAiProvider } from '@/lib/ai-models';
+import { regenerateSummary, RegenerateError } from '@/lib/summaries';
+import { RefreshCw } from 'lucide-react';
+
+interface RegenerateAnalysisDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interviewId: string;
+  transcript: string;
+  // Preselected template: the one the version on screen was produced with
+  templateId: string | null;
+  // Whether the interview has speaker-labelled segments to analyse instead of the text
+  hasSpeakerSegments: boolean;
+  // Preselects analysing the transcript text, e.g. right after it was edited
+  preferTranscriptText?: boolean;
+  // Called with the id of the new version, including failed ones
+  onRegenerated: (summaryId: string | null) => void;
+}
+
+// Workspace settings: the provider chosen in the profile, or the deployment default
+const WORKSPACE_PROVIDER = 'workspace';
+
+export const RegenerateAnalysisDialog = ({
+  open,
+  onOpenChange,
+  interviewId,
+  transcript,
+  templateId,
+  hasSpeakerSegments,
+  preferTranscriptText = false,
+  onRegenerated,
+}: RegenerateAnalysisDialogProps) => {
+  const { toast } = useToast();
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(templateId);
+  const [provider, setProvider] = useState(WORKSPACE_PROVIDER);
+  const [model, setModel] = useState('');
+  const [useTranscriptText, setUseTranscriptText] = useState(preferTranscriptText);
+  const [running, setRunning] = useState(false);
+
+  // Start from the version on screen each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedTemplateId(templateId);
+      setUseTranscriptText(preferTranscriptText);
+    }
+  }, [open, templateId, preferTranscriptText]);
+
+  const selectedProvider = getAiProvider(provider);
+
+  const changeProvider = (value: string) => {
+    setProvider(value);
+    setModel(getAiProvider(value)?.models[0] ?? '');
+  };
+
+  const regenerate = async () => {
+    if (!transcript.trim()) {
+      toast({
+        title: "No transcript",
+        description: "There is no transcript to analyse for this interview.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const summaryId = await regenerateSummary({
+        interviewId,
+        transcript,
+        templateId: selectedTemplateId,
+        provider: selectedProvider?.id ?? null,
+        model: model.trim() || null,
+        useTranscriptText: useTranscriptText || !hasSpeakerSegments,
+      });
+      toast({
+        title: "Analysis regenerated",
+        description: "The new version is now shown. Earlier versions are kept.",
+      });
+      onRegenerated(summaryId);
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({
+        title: "Regeneration failed",
+        description: error instanceof Error ? error.message : 'Could not regenerate the analysis',
+        variant: "destructive",
+      });
+      if (error instanceof RegenerateError && error.summaryId) {
+        onRegenerated(error.summaryId);
+        onOpenChange(false);
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Regenerate Analysis</DialogTitle>
+          <DialogDescription>
+            Runs a new analysis of this interview. The current analysis is kept as an earlier version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <TemplatePicker
+            positionTitle=""
+            value={selectedTemplateId}
+            onChange={setSelectedTemplateId}
+            followDefaults={false}
+            allowSavingDefaults={false}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={provider} onValueChange={changeProvider}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WORKSPACE_PROVIDER}>Workspace setting</SelectItem>
+                  {AI_PROVIDERS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="regenerate-model">{selectedProvider?.modelLabel ?? 'Model'}</Label>
+              <Input
+                id="regenerate-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={selectedProvider ? 'Provider default' : 'Workspace model'}
+                list="regenerate-model-options"
+              />
+              <datalist id="regenerate-model-options">
+                {(selectedProvider?.models ?? []).map((option) => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {hasSpeakerSegments && (
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="useTranscriptText"
+                checked={useTranscriptText}
+                onCheckedChange={(checked) => setUseTranscriptText(checked as boolean)}
+                className="mt-0.5"
+              />
+              <Label htmlFor="useTranscriptText" className="text-sm font-normal">
+                Analyse the transcript text, including your edits, instead of the speaker-labelled timeline
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={running}>
+            Cancel
+          </Button>
+          <Button onClick={regenerate} disabled={running} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Analysing...' : 'Regenerate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
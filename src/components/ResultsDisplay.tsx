@@ -1,24 +1,145 @@
 import { useState } from 'react';
-import { Copy, Check, Download, Mail, FileText, Star, AlertTriangle, Target, Save } from 'lucide-react';
+import { Copy, Check, Download, Mail, FileText, Star, AlertTriangle, Target, Save, Gauge, Table as TableIcon, List } from 'lucide-react';
 import { Button } from './ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Card, CardContent, CardHeader } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-
-interface ProcessingResults {
-  jobSummary: string;
-  mustHaves: string[];
-  challenges: string;
-  jobDescription: string;
-  recapEmail: string;
-}
+import { DEFAULT_SECTIONS, RATING_SCALE, type TemplateSection } from '@/lib/summary-schema';
+import { asRating, asRows, cellText, isEmptyValue, sectionText } from '@/lib/summary-format';
 
 interface ResultsDisplayProps {
-  results: ProcessingResults;
+  results: Record<string, unknown>;
+  // The sections to show, in order; the default analysis when omitted
+  sections?: TemplateSection[];
   filename: string;
 }
 
-export const ResultsDisplay = ({ results, filename }: ResultsDisplayProps) => {
+// The default sections keep their own icons; other sections get one for their type
+const SECTION_ICONS: Record<string, typeof FileText> = {
+  jobSummary: Target,
+  mustHaves: Star,
+  challenges: AlertTriangle,
+  jobDescription: FileText,
+  recapEmail: Mail,
+};
+
+const TYPE_ICONS: Record<TemplateSection['type'], typeof FileText> = {
+  text: FileText,
+  bullet_list: List,
+  rating: Gauge,
+  table: TableIcon,
+};
+
+const renderValue = (section: TemplateSection, value: unknown) => {
+  if (isEmptyValue(value)) {
+    return <p className="text-muted-foreground italic">Not covered in this interview.</p>;
+  }
+
+  const rating = section.type === 'rating' ? asRating(value) : null;
+  if (rating) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-1" aria-label={`${rating.score} out of ${RATING_SCALE}`}>
+          {Array.from({ length: RATING_SCALE }, (_, index) => (
+            <Star
+              key={index}
+              className={`h-5 w-5 ${index < rating.score ? 'text-yellow-500 fill-yellow-500' : 'text-muted-foreground'}`}
+            />
+          ))}
+          <span className="ml-2 text-sm font-medium text-foreground">{rating.score}/{RATING_SCALE}</span>
+        </div>
+        {rating.rationale && (
+          <p className="text-foreground leading-relaxed whitespace-pre-wrap">{rating.rationale}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (section.type === 'table' && Array.isArray(value)) {
+    const rows = asRows(value);
+    const columns = section.columns ?? Object.keys(rows[0] ?? {});
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map((column) => <TableHead key={column}>{column}</TableHead>)}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, index) => (
+            <TableRow key={index}>
+              {columns.map((column) => <TableCell key={column}>{cellText(row[column])}</TableCell>)}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return (
+      <ul className="space-y-2">
+        {value.map((item, index) => (
+          <li key={index} className="flex items-start gap-2">
+            <span className="flex-shrink-0 w-6 h-6 bg-primary/10 text-primary text-xs rounded-full flex items-center justify-center font-medium mt-0.5">
+              {index + 1}
+            </span>
+            <span className="text-foreground leading-relaxed">{cellText(item)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (typeof value === 'string') {
+    return <p className="text-foreground leading-relaxed whitespace-pre-wrap">{value}</p>;
+  }
+
+  return (
+    <pre className="text-sm text-foreground whitespace-pre-wrap break-words">{JSON.stringify(value, null, 2)}</pre>
+  );
+};
+
+interface SectionCardProps {
+  section: TemplateSection;
+  value: unknown;
+  copied: boolean;
+  onCopy: () => void;
+}
+
+const SectionCard = ({ section, value, copied, onCopy }: SectionCardProps) => {
+  const Icon = SECTION_ICONS[section.key] ?? TYPE_ICONS[section.type] ?? FileText;
+
+  return (
+    <Card className="bg-white shadow-card hover:shadow-lg border border-border rounded-2xl mb-6 transition-shadow">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <Icon className="h-5 w-5 text-primary" />
+          </div>
+          <span className="text-lg font-semibold text-foreground">{section.title}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCopy}
+          className="h-8 w-8 p-0"
+          aria-label={`Copy ${section.title}`}
+        >
+          {copied ? (
+            <Check className="h-4 w-4 text-green-600" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+        </Button>
+      </CardHeader>
+      <CardContent>{renderValue(section, value)}</CardContent>
+    </Card>
+  );
+};
+
+export const ResultsDisplay = ({ results, sections = DEFAULT_SECTIONS, filename }: ResultsDisplayProps) => {
   const [copiedSections, setCopiedSections] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
@@ -48,6 +169,16 @@ export const ResultsDisplay = ({ results, filename }: ResultsDisplayProps) => {
     }
   };
 
+  const renderSection = (section: TemplateSection) => (
+    <SectionCard
+      key={section.key}
+      section={section}
+      value={results[section.key]}
+      copied={copiedSections.has(section.title)}
+      onCopy={() => copyToClipboard(sectionText(section, results[section.key]), section.title)}
+    />
+  );
+
   const downloadJSON = () => {
     const jsonData = JSON.stringify(results, null, 2);
     const blob = new Blob([jsonData], { type: 'application/json' });
@@ -67,34 +198,15 @@ export const ResultsDisplay = ({ results, filename }: ResultsDisplayProps) => {
   };
 
   const downloadResults = () => {
-    const fullReport = `HIRING MANAGER SYNC REPORT
+    const fullReport = [
+      `HIRING MANAGER SYNC REPORT
 Generated from: ${filename}
-Generated on: ${new Date().toLocaleDateString()}
-
-=====================================
-JOB SUMMARY
-=====================================
-${results.jobSummary}
-
-=====================================
-TOP 5 MUST-HAVES
-=====================================
-${results.mustHaves.map((item, index) => `${index + 1}. ${item}`).join('\n')}
-
-=====================================
-CHALLENGES/CONCERNS
+Generated on: ${new Date().toLocaleDateString()}`,
+      ...sections.map((section) => `=====================================
+${section.title.toUpperCase()}
 =====================================
-${results.challenges}
-
-=====================================
-JOB DESCRIPTION DRAFT
-=====================================
-${results.jobDescription}
-
-=====================================
-HIRING MANAGER RECAP EMAIL + SCORECARD
-=====================================
-${results.recapEmail}`;
+${sectionText(section, results[section.key])}`),
+    ].join('\n\n');
 
     const blob = new Blob([fullReport], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -112,64 +224,6 @@ ${results.recapEmail}`;
     });
   };
 
-  const SectionCard = ({ 
-    title, 
-    content, 
-    icon: Icon, 
-    sectionKey 
-  }: { 
-    title: string; 
-    content: string | string[]; 
-    icon: any; 
-    sectionKey: string;
-  }) => {
-    const textContent = Array.isArray(content) 
-      ? content.map((item, index) => `${index + 1}. ${item}`).join('\n')
-      : content;
-
-    return (
-      <Card className="bg-white shadow-card hover:shadow-lg border border-border rounded-2xl mb-6 transition-shadow">
-        <CardHeader className="pb-3 flex flex-row items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="p-2 bg-primary/10 rounded-lg">
-              <Icon className="h-5 w-5 text-primary" />
-            </div>
-            <span className="text-lg font-semibold text-foreground">{title}</span>
-          </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => copyToClipboard(textContent, title)}
-            className="h-8 w-8 p-0"
-            aria-label={`Copy ${title}`}
-          >
-            {copiedSections.has(title) ? (
-              <Check className="h-4 w-4 text-green-600" />
-            ) : (
-              <Copy className="h-4 w-4" />
-            )}
-          </Button>
-        </CardHeader>
-        <CardContent>
-          {Array.isArray(content) ? (
-            <ul className="space-y-2">
-              {content.map((item, index) => (
-                <li key={index} className="flex items-start gap-2">
-                  <span className="flex-shrink-0 w-6 h-6 bg-primary/10 text-primary text-xs rounded-full flex items-center justify-center font-medium mt-0.5">
-                    {index + 1}
-                  </span>
-                  <span className="text-foreground leading-relaxed">{item}</span>
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <p className="text-foreground leading-relaxed whitespace-pre-wrap">{content}</p>
-          )}
-        </CardContent>
-      </Card>
-    );
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -190,92 +244,22 @@ ${results.recapEmail}`;
       </div>
 
       <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="flex flex-wrap h-auto w-full justify-start">
           <TabsTrigger value="all">All</TabsTrigger>
-          <TabsTrigger value="summary">Summary</TabsTrigger>
-          <TabsTrigger value="requirements">Must-Haves</TabsTrigger>
-          <TabsTrigger value="challenges">Concerns</TabsTrigger>
-          <TabsTrigger value="description">Job Desc</TabsTrigger>
-          <TabsTrigger value="email">Email</TabsTrigger>
+          {sections.map((section) => (
+            <TabsTrigger key={section.key} value={`section-${section.key}`}>{section.title}</TabsTrigger>
+          ))}
         </TabsList>
 
         <TabsContent value="all" className="space-y-6 mt-6">
-          <SectionCard
-            title="Job Summary"
-            content={results.jobSummary}
-            icon={Target}
-            sectionKey="summary"
-          />
-          <SectionCard
-            title="Top 5 Must-Haves"
-            content={results.mustHaves}
-            icon={Star}
-            sectionKey="mustHaves"
-          />
-          <SectionCard
-            title="Challenges/Concerns"
-            content={results.challenges}
-            icon={AlertTriangle}
-            sectionKey="challenges"
-          />
-          <SectionCard
-            title="Job Description Draft"
-            content={results.jobDescription}
-            icon={FileText}
-            sectionKey="jobDescription"
-          />
-          <SectionCard
-            title="Hiring Manager Recap Email + Scorecard"
-            content={results.recapEmail}
-            icon={Mail}
-            sectionKey="recapEmail"
-          />
-        </TabsContent>
-
-        <TabsContent value="summary" className="mt-6">
-          <SectionCard
-            title="Job Summary"
-            content={results.jobSummary}
-            icon={Target}
-            sectionKey="summary"
-          />
-        </TabsContent>
-
-        <TabsContent value="requirements" className="mt-6">
-          <SectionCard
-            title="Top 5 Must-Haves"
-            content={results.mustHaves}
-            icon={Star}
-            sectionKey="mustHaves"
-          />
-        </TabsContent>
-
-        <TabsContent value="challenges" className="mt-6">
-          <SectionCard
-            title="Challenges/Concerns"
-            content={results.challenges}
-            icon={AlertTriangle}
-            sectionKey="challenges"
-          />
-        </TabsContent>
-
-        <TabsContent value="description" className="mt-6">
-          <SectionCard
-            title="Job Description Draft"
-            content={results.jobDescription}
-            icon={FileText}
-            sectionKey="jobDescription"
-          />
+          {sections.map((section) => renderSection(section))}
         </TabsContent>
 
-        <TabsContent value="email" className="mt-6">
-          <SectionCard
-            title="Hiring Manager Recap Email + Scorecard"
-            content={results.recapEmail}
-            icon={Mail}
-            sectionKey="recapEmail"
-          />
-        </TabsContent>
+        {sections.map((section) => (
+          <TabsContent key={section.key} value={`section-${section.key}`} className="mt-6">
+            {renderSection(section)}
+          </TabsContent>
+        ))}
       </Tabs>
     </div>
   );
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,22 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createShareLink,
+  isLinkActive,
+  loadShareLinkAccess,
+  loadShareLinks,
+  revokeShareLink,
+  scopeOf,
+  sendInvitation,
+  SHARE_SCOPE_LABELS,
+  SHARE_SCOPES,
+  shareUrl,
+  type ShareLink,
+  type ShareLinkAccess,
+  type ShareScope,
+} from '@/lib/share-links';
 import { 
   Share2, 
   Mail, 
@@ -18,7 +34,8 @@ import {
   Users, 
   Eye,
   Lock,
-  Calendar
+  Calendar,
+  Ban
 } from 'lucide-react';
 
 interface ShareInterviewProps {
@@ -29,12 +46,20 @@ interface ShareInterviewProps {
 
 export const ShareInterview = ({ interviewId, interviewName, candidateName }: ShareInterviewProps) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [linkScope, setLinkScope] = useState<ShareScope>('view');
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  // Access log of the link whose log is expanded
+  const [accessLog, setAccessLog] = useState<{ linkId: string; entries: ShareLinkAccess[] } | null>(null);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     email: '',
     message: '',
-    permissions: ['view'],
+    inviteScope: 'view' as ShareScope,
+    inviteExpiresIn: '7',
     expiresIn: '7'
   });
 
@@ -50,20 +75,25 @@ export const ShareInterview = ({ interviewId, interviewName, candidateName }: Sh
 
     setLoading(true);
     try {
-      // Here you would integrate with your email service
-      // For now, we'll simulate the email sending
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      await sendInvitation({
+        interviewId,
+        email: formData.email.trim(),
+        message: formData.message,
+        scope: formData.inviteScope,
+        expiresInDays: formData.inviteExpiresIn === 'never' ? null : parseInt(formData.inviteExpiresIn),
+      });
+
       toast({
         title: "Invitation sent",
         description: `Invitation sent to ${formData.email}`,
       });
       
       setFormData(prev => ({ ...prev, email: '', message: '' }));
-    } catch (error: any) {
+      refreshShareLinks();
+    } catch (error: unknown) {
       toast({
         title: "Error sending invitation",
-        description: error.message,
+        description: error instanceof Error ? error.message : 'Could not send the invitation',
         variant: "destructive",
       });
     } finally {
@@ -71,13 +101,93 @@ export const ShareInterview = ({ interviewId, interviewName, candidateName }: Sh
     }
   };
 
-  const generateShareLink = () => {
-    const shareUrl = `${window.location.origin}/interview/${interviewId}`;
-    navigator.clipboard.writeText(shareUrl);
-    toast({
-      title: "Link copied",
-      description: "Share link has been copied to clipboard.",
-    });
+  const refreshShareLinks = useCallback(async () => {
+    try {
+      setShareLinks(await loadShareLinks(interviewId));
+    } catch (error: unknown) {
+      toast({
+        title: "Error loading share links",
+        description: error instanceof Error ? error.message : 'Could not load the share links',
+        variant: "destructive",
+      });
+    }
+  }, [interviewId, toast]);
+
+  useEffect(() => {
+    if (isDialogOpen) refreshShareLinks();
+  }, [isDialogOpen, refreshShareLinks]);
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link.access_token));
+    setCopiedLinkId(link.id);
+    setTimeout(() => setCopiedLinkId(null), 2000);
+  };
+
+  const generateShareLink = async () => {
+    if (!user) return;
+
+    setCreatingLink(true);
+    try {
+      const link = await createShareLink(
+        interviewId,
+        user.id,
+        linkScope,
+        formData.expiresIn === 'never' ? null : parseInt(formData.expiresIn),
+      );
+      await navigator.clipboard.writeText(shareUrl(link.access_token));
+      toast({
+        title: "Link copied",
+        description: "A new share link has been copied to the clipboard.",
+      });
+      refreshShareLinks();
+    } catch (error: unknown) {
+      toast({
+        title: "Error creating share link",
+        description: error instanceof Error ? error.message : 'Could not create the share link',
+        variant: "destructive",
+      });
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const revokeLink = async (link: ShareLink) => {
+    try {
+      await revokeShareLink(link.id);
+      toast({
+        title: "Link revoked",
+        description: "The link no longer opens this interview.",
+      });
+      refreshShareLinks();
+    } catch (error: unknown) {
+      toast({
+        title: "Error revoking link",
+        description: error instanceof Error ? error.message : 'Could not revoke the share link',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleAccessLog = async (link: ShareLink) => {
+    if (accessLog?.linkId === link.id) {
+      setAccessLog(null);
+      return;
+    }
+    try {
+      setAccessLog({ linkId: link.id, entries: await loadShareLinkAccess(link.id) });
+    } catch (error: unknown) {
+      toast({
+        title: "Error loading access log",
+        description: error instanceof Error ? error.message : 'Could not load the access log',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const linkStatus = (link: ShareLink) => {
+    if (link.revoked_at) return 'Revoked';
+    if (!isLinkActive(link)) return 'Expired';
+    return link.expires_at ? `Expires ${new Date(link.expires_at).toLocaleDateString()}` : 'Never expires';
   };
 
   return (
@@ -88,7 +198,7 @@ export const ShareInterview = ({ interviewId, interviewName, candidateName }: Sh
           Share Interview
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Share Interview</DialogTitle>
         </DialogHeader>
@@ -129,22 +239,44 @@ export const ShareInterview = ({ interviewId, interviewName, candidateName }: Sh
                   rows={3}
                 />
               </div>
-              <div>
-                <Label htmlFor="permissions">Permissions</Label>
-                <Select
-                  value={formData.permissions[0]}
-                  onValueChange={(value) => setFormData({ ...formData, permissions: [value] })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="view">View Only</SelectItem>
-                    <SelectItem value="comment">View & Comment</SelectItem>
-                    <SelectItem value="edit">Full Access</SelectItem>
-                  </SelectContent>
-                </Select>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="permissions">Permissions</Label>
+                  <Select
+                    value={formData.inviteScope}
+                    onValueChange={(value) => setFormData({ ...formData, inviteScope: value as ShareScope })}
+                  >
+                    <SelectTrigger id="permissions">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHARE_SCOPES.map((scope) => (
+                        <SelectItem key={scope} value={scope}>{SHARE_SCOPE_LABELS[scope]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="inviteExpiresIn">Invitation Expires In</Label>
+                  <Select
+                    value={formData.inviteExpiresIn}
+                    onValueChange={(value) => setFormData({ ...formData, inviteExpiresIn: value })}
+                  >
+                    <SelectTrigger id="inviteExpiresIn">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 Day</SelectItem>
+                      <SelectItem value="7">7 Days</SelectItem>
+                      <SelectItem value="30">30 Days</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
+              <p className="text-xs text-muted-foreground">
+                Only this address can open the interview, after signing in.
+              </p>
               <Button onClick={sendEmailInvite} disabled={loading} className="w-full">
                 <Mail className="h-4 w-4 mr-2" />
                 {loading ? 'Sending...' : 'Send Invitation'}
@@ -159,28 +291,115 @@ export const ShareInterview = ({ interviewId, interviewName, candidateName }: Sh
               Share Link
             </h3>
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="expiresIn">Link Expires In</Label>
-                <Select
-                  value={formData.expiresIn}
-                  onValueChange={(value) => setFormData({ ...formData, expiresIn: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1">1 Day</SelectItem>
-                    <SelectItem value="7">7 Days</SelectItem>
-                    <SelectItem value="30">30 Days</SelectItem>
-                    <SelectItem value="never">Never</SelectItem>
-                  </SelectContent>
-                </Select>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="linkScope">Access</Label>
+                  <Select value={linkScope} onValueChange={(value) => setLinkScope(value as ShareScope)}>
+                    <SelectTrigger id="linkScope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHARE_SCOPES.map((scope) => (
+                        <SelectItem key={scope} value={scope}>{SHARE_SCOPE_LABELS[scope]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="expiresIn">Link Expires In</Label>
+                  <Select
+                    value={formData.expiresIn}
+                    onValueChange={(value) => setFormData({ ...formData, expiresIn: value })}
+                  >
+                    <SelectTrigger id="expiresIn">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 Day</SelectItem>
+                      <SelectItem value="7">7 Days</SelectItem>
+                      <SelectItem value="30">30 Days</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-              <Button onClick={generateShareLink} className="w-full">
+              <p className="text-xs text-muted-foreground">
+                Anyone with the link can open the latest analysis without signing in. Commenting and editing require an account.
+              </p>
+              <Button onClick={generateShareLink} disabled={creatingLink} className="w-full">
                 <Copy className="h-4 w-4 mr-2" />
-                Copy Share Link
+                {creatingLink ? 'Creating...' : 'Create & Copy Share Link'}
               </Button>
             </div>
+
+            {shareLinks.length > 0 && (
+              <ul className="space-y-2">
+                {shareLinks.map((link) => (
+                  <li key={link.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={isLinkActive(link) ? 'default' : 'secondary'}>
+                            {SHARE_SCOPE_LABELS[scopeOf(link.permissions)]}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {linkStatus(link)}
+                          </span>
+                        </div>
+                        {link.invitation && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                            <Mail className="h-3 w-3 shrink-0" />
+                            Sent to {link.invitation.email} · {link.invitation.accepted_at ? 'Accepted' : 'Pending'}
+                          </p>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => toggleAccessLog(link)}
+                          className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+                        >
+                          <Eye className="h-3 w-3" />
+                          Opened {link.access_count[0]?.count ?? 0} times
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {isLinkActive(link) && (
+                          <>
+                            {/* Invitation links only open for the invitee, so there is nothing to copy */}
+                            {!link.invitation && (
+                              <Button variant="ghost" size="sm" onClick={() => copyLink(link)} title="Copy link">
+                                {copiedLinkId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => revokeLink(link)} title="Revoke link">
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    {accessLog?.linkId === link.id && (
+                      accessLog.entries.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Not opened yet.</p>
+                      ) : (
+                        <ul className="text-xs text-muted-foreground space-y-0.5 max-h-40 overflow-y-auto">
+                          {accessLog.entries.map((entry) => (
+                            <li key={entry.id} className="flex items-center gap-2">
+                              {entry.viewer_id ? <Users className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                              <span>{new Date(entry.accessed_at).toLocaleString()}</span>
+                              <span className="truncate">
+                                {entry.viewer_id ? 'Signed-in user' : 'Anonymous'}
+                                {entry.ip_address && ` · ${entry.ip_address}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { TemplatePicker } from '@/components/TemplatePicker';
 import { 
   Sparkles, 
   CheckCircle, 
@@ -19,13 +20,15 @@ interface SmartFormProps {
   initialData?: Partial<FormData>;
 }
 
-interface FormData {
+export interface FormData {
   candidateName: string;
   positionTitle: string;
   company: string;
   interviewDate: string;
   interviewType: string;
   priority: 'low' | 'medium' | 'high';
+  // Analysis template; null for the built-in analysis
+  templateId: string | null;
 }
 
 export const SmartForm = ({ onFormComplete, initialData }: SmartFormProps) => {
@@ -37,6 +40,7 @@ export const SmartForm = ({ onFormComplete, initialData }: SmartFormProps) => {
     interviewDate: '',
     interviewType: 'technical',
     priority: 'medium',
+    templateId: null,
     ...initialData
   });
   const [suggestions, setSuggestions] = useState<string[]>([]);
@@ -144,6 +148,10 @@ export const SmartForm = ({ onFormComplete, initialData }: SmartFormProps) => {
     }
   };
 
+  const handleTemplateChange = useCallback((templateId: string | null) => {
+    setFormData(prev => ({ ...prev, templateId }));
+  }, []);
+
   const handleSuggestionClick = (suggestion: string, field: keyof FormData) => {
     setFormData(prev => ({ ...prev, [field]: suggestion }));
     setSuggestions([]);
@@ -317,6 +325,13 @@ export const SmartForm = ({ onFormComplete, initialData }: SmartFormProps) => {
           </div>
         </div>
 
+        {/* Analysis Template */}
+        <TemplatePicker
+          positionTitle={formData.positionTitle}
+          value={formData.templateId}
+          onChange={handleTemplateChange}
+        />
+
         {/* Submit Button */}
         <Button
           onClick={handleSubmit}
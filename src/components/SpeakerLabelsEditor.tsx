@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { saveSpeakerLabels, type SpeakerLabels } from '@/lib/transcript';
+import { Save, Users } from 'lucide-react';
+
+interface SpeakerLabelsEditorProps {
+  interviewId: string;
+  speakers: string[];
+  labels: SpeakerLabels;
+  onSaved: (labels: SpeakerLabels) => void;
+}
+
+export const SpeakerLabelsEditor = ({ interviewId, speakers, labels, onSaved }: SpeakerLabelsEditorProps) => {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SpeakerLabels>(labels);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(labels);
+  }, [labels]);
+
+  const hasChanges = speakers.some((speaker) => (draft[speaker] || '').trim() !== (labels[speaker] || ''));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveSpeakerLabels(interviewId, draft);
+      onSaved(saved);
+      toast({
+        title: "Speaker names saved",
+        description: "The new names are used in the transcript and the next analysis of this interview.",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save speaker names',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          Speakers
+        </div>
+        <Button size="sm" onClick={save} disabled={!hasChanges || isSaving} className="gap-2">
+          <Save className="h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save Names'}
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {speakers.map((speaker) => (
+          <div key={speaker} className="space-y-1">
+            <Label htmlFor={`speaker-${speaker}`} className="text-xs text-muted-foreground">
+              {speaker}
+            </Label>
+            <Input
+              id={`speaker-${speaker}`}
+              value={draft[speaker] || ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, [speaker]: e.target.value }))}
+              placeholder="e.g. Dana, Eng Manager"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -7,7 +7,31 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { jobProgress } from '@/lib/processing-jobs';
+import { setInterviewStage } from '@/lib/processing-stage';
+import {
+  acceptAttribute,
+  attachInterviewFile,
+  createInterview,
+  failInterview,
+  findUnfinishedInterview,
+  interviewObjectName,
+  missingDetails,
+  queueInterviewProcessing,
+  uploadFileProblem,
+} from '@/lib/interview-upload';
+import {
+  isSameFile,
+  loadPendingUploads,
+  removePendingUpload,
+  savePendingUpload,
+  startResumableUpload,
+  type PendingUpload,
+  type UploadHandle,
+} from '@/lib/resumable-upload';
+import { metadataFromFilename } from '@/lib/interview-metadata';
+import { useProcessingJob } from '@/hooks/useProcessingJob';
+import { TemplatePicker } from '@/components/TemplatePicker';
 import { 
   Upload, 
   FileText, 
@@ -16,29 +40,29 @@ import {
   X,
   Sparkles,
   Brain,
-  Zap
+  Zap,
+  Pause,
+  Play,
+  RotateCcw
 } from 'lucide-react';
 
 interface StreamlinedUploadProps {
   onUploadComplete: (interviewId: string) => void;
   onProcessingComplete: () => void;
+  // Details already collected (e.g. by SmartForm)
+  initialData?: Partial<UploadFormData>;
 }
 
-interface InterviewRecord {
-  id: string;
-  user_id: string;
-  file_name: string;
-  file_size: number;
-  file_url: string | null;
-  candidate_name: string | null;
-  position_title: string | null;
-  status: string;
-  created_at: string;
+interface UploadFormData {
+  candidateName: string;
+  positionTitle: string;
+  templateId: string | null;
 }
 
 export const StreamlinedUpload = ({ 
   onUploadComplete, 
-  onProcessingComplete 
+  onProcessingComplete,
+  initialData
 }: StreamlinedUploadProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -47,24 +71,61 @@ export const StreamlinedUpload = ({
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [processingProgress, setProcessingProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const uploadHandle = useRef<UploadHandle | null>(null);
+  // Uploads interrupted by a reload or a dropped connection, and the one the selected file resumes
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [resumeTarget, setResumeTarget] = useState<PendingUpload | null>(null);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<'idle' | 'uploading' | 'processing' | 'complete'>('idle');
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<UploadFormData>({
     candidateName: '',
-    positionTitle: ''
+    positionTitle: '',
+    templateId: null,
+    ...initialData
   });
+  const setTemplateId = useCallback((templateId: string | null) => {
+    setFormData(prev => ({ ...prev, templateId }));
+  }, []);
+  const { job: processingJob } = useProcessingJob(processingJobId);
+
+  useEffect(() => {
+    if (user) setPendingUploads(loadPendingUploads(user.id));
+  }, [user]);
+  const processingProgress = jobProgress(processingJob);
+
+  // Follow the queued job until the worker finishes it
+  useEffect(() => {
+    if (currentStep !== 'processing' || !processingJob) return;
+
+    if (processingJob.status === 'completed') {
+      setCurrentStep('complete');
+      toast({
+        title: "Analysis complete!",
+        description: "Your interview has been successfully analyzed.",
+      });
+      onProcessingComplete();
+    } else if (processingJob.status === 'failed') {
+      toast({
+        title: "Processing failed",
+        description: processingJob.last_error || 'Failed to process the file.',
+        variant: "destructive",
+      });
+      setCurrentStep('idle');
+    }
+  }, [currentStep, processingJob, toast, onProcessingComplete]);
 
   // Auto-fill form based on filename
   const autoFillFromFilename = useCallback((filename: string) => {
-    const nameMatch = filename.match(/([A-Z][a-z]+ [A-Z][a-z]+)/);
-    const positionMatch = filename.match(/(Engineer|Manager|Director|Analyst|Specialist|Coordinator)/i);
+    const { candidateName, positionTitle } = metadataFromFilename(filename);
     
-    if (nameMatch && !formData.candidateName) {
-      setFormData(prev => ({ ...prev, candidateName: nameMatch[1] }));
+    if (candidateName && !formData.candidateName) {
+      setFormData(prev => ({ ...prev, candidateName }));
     }
     
-    if (positionMatch && !formData.positionTitle) {
-      setFormData(prev => ({ ...prev, positionTitle: positionMatch[1] }));
+    if (positionTitle && !formData.positionTitle) {
+      setFormData(prev => ({ ...prev, positionTitle }));
     }
   }, [formData.candidateName, formData.positionTitle]);
 
@@ -78,6 +139,32 @@ export const StreamlinedUpload = ({
     }
   }, []);
 
+  const handleFileSelect = useCallback((file: File) => {
+    const problem = uploadFileProblem(file);
+    if (problem) {
+      toast({
+        title: 'Invalid file',
+        description: problem,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Picking the file of an interrupted upload again carries on with that upload
+    const pending = pendingUploads.find((upload) => isSameFile(upload, file)) ?? null;
+    setResumeTarget(pending);
+    setSelectedFile(file);
+    if (pending) {
+      setFormData({
+        candidateName: pending.candidateName,
+        positionTitle: pending.positionTitle,
+        templateId: pending.templateId,
+      });
+    } else {
+      autoFillFromFilename(file.name);
+    }
+  }, [toast, autoFillFromFilename, pendingUploads]);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -87,47 +174,26 @@ export const StreamlinedUpload = ({
     if (files && files[0]) {
       handleFileSelect(files[0]);
     }
-  }, []);
+  }, [handleFileSelect]);
 
-  const handleFileSelect = useCallback((file: File) => {
-    const allowedTypes = [
-      'text/plain',
-      'audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/x-m4a',
-      'audio/aac', 'audio/ogg', 'audio/webm', 'audio/flac'
-    ];
-    const allowedExtensions = ['txt', 'mp3', 'wav', 'm4a', 'mp4', 'aac', 'ogg', 'webm', 'flac'];
-    const fileExtension = file.name.toLowerCase().split('.').pop();
-
-    if (file.size > 100 * 1024 * 1024) {
-      toast({
-        title: 'File too large',
-        description: 'Please select a file smaller than 100MB.',
-        variant: 'destructive',
-      });
-      return;
-    }
+  const discardPendingUpload = async (pending: PendingUpload) => {
+    removePendingUpload(pending.interviewId);
+    setPendingUploads((prev) => prev.filter((upload) => upload.interviewId !== pending.interviewId));
+    if (resumeTarget?.interviewId === pending.interviewId) setResumeTarget(null);
+    await setInterviewStage(pending.interviewId, 'failed', 'Upload abandoned before it finished').catch(() => undefined);
+  };
 
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension || '')) {
-      toast({
-        title: 'Invalid file type',
-        description: 'Please select a text or audio file.',
-        variant: 'destructive',
-      });
-      return;
+  const togglePause = () => {
+    if (isPaused) {
+      uploadHandle.current?.resume();
+    } else {
+      uploadHandle.current?.pause();
     }
-
-    setSelectedFile(file);
-    autoFillFromFilename(file.name);
-  }, [toast, autoFillFromFilename]);
+    setIsPaused(!isPaused);
+  };
 
   const startUpload = async () => {
-    console.log('=== UPLOAD STARTED ===');
-    console.log('User:', user?.id);
-    console.log('File:', selectedFile?.name);
-    console.log('Form data:', formData);
-
-    if (!selectedFile || !formData.candidateName.trim() || !formData.positionTitle.trim()) {
-      console.log('Validation failed - missing data');
+    if (!user || !selectedFile || missingDetails(formData)) {
       toast({
         title: 'Missing information',
         description: 'Please fill in candidate name, position, and select a file.',
@@ -138,212 +204,103 @@ export const StreamlinedUpload = ({
 
     setCurrentStep('uploading');
     setUploadProgress(0);
+    setUploadedBytes(0);
+    setIsPaused(false);
+    // Set once the record exists, so a failed upload can be recorded on it
+    let interviewId: string | null = null;
+    // An upload that stops part-way stays resumable rather than failing the interview
+    let uploadInterrupted = false;
 
     try {
-      console.log('Creating interview record...');
-      const { data: interview, error: interviewError } = await supabase
-        .from('interviews')
-        .insert({
-          user_id: user?.id,
-          file_name: selectedFile.name,
-          file_size: selectedFile.size,
-          candidate_name: formData.candidateName.trim(),
-          position_title: formData.positionTitle.trim(),
-          status: 'uploading'
-        })
-        .select()
-        .single();
-
-      console.log('Interview created:', interview);
-      console.log('Interview error:', interviewError);
-
-      if (interviewError || !interview) {
-        throw new Error('Failed to create interview record');
-      }
-
-      console.log('Simulating upload progress...');
-      // Simulate upload progress
-      for (let i = 0; i <= 100; i += 10) {
-        setUploadProgress(i);
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-
-      console.log('Uploading file to storage...');
-      const fileName = `${user.id}/${interview.id}-${selectedFile.name}`;
-      console.log('Storage file name:', fileName);
-
-      const { error: uploadError } = await supabase.storage
-        .from('interview-audio')
-        .upload(fileName, selectedFile);
-
-      console.log('Storage upload error:', uploadError);
-
-      if (uploadError) {
-        console.error('Storage upload failed:', uploadError);
-        throw uploadError;
-      }
-
-      console.log('File uploaded successfully to storage');
-
-      // Get the public URL
-      const { data: fileUrl } = supabase.storage
-        .from('interview-audio')
-        .getPublicUrl(fileName);
+      // The interview of an interrupted upload is reused, if it is still waiting for its file
+      const resumedInterviewId = resumeTarget ? await findUnfinishedInterview(resumeTarget.interviewId) : null;
+      interviewId = resumedInterviewId ?? await createInterview(user.id, selectedFile, formData);
+
+      const fileName = resumedInterviewId && resumeTarget
+        ? resumeTarget.objectName
+        : interviewObjectName(user.id, interviewId, selectedFile.name);
+
+      savePendingUpload({
+        userId: user.id,
+        interviewId,
+        objectName: fileName,
+        fileName: selectedFile.name,
+        fileSize: selectedFile.size,
+        candidateName: formData.candidateName.trim(),
+        positionTitle: formData.positionTitle.trim(),
+        templateId: formData.templateId,
+      });
 
-      console.log('File URL:', fileUrl.publicUrl);
+      uploadInterrupted = true;
+      uploadHandle.current = await startResumableUpload(selectedFile, fileName, (bytesUploaded, bytesTotal) => {
+        setUploadedBytes(bytesUploaded);
+        setUploadProgress(Math.round((bytesUploaded / bytesTotal) * 100));
+      });
+      await uploadHandle.current.done;
+      uploadInterrupted = false;
+      uploadHandle.current = null;
 
-      // Update interview with file URL
-      await supabase
-        .from('interviews')
-        .update({
-          file_url: fileUrl.publicUrl,
-          status: 'uploaded'
-        })
-        .eq('id', interview.id);
+      const uploadedId = interviewId;
+      removePendingUpload(uploadedId);
+      setPendingUploads((prev) => prev.filter((upload) => upload.interviewId !== uploadedId));
+      setResumeTarget(null);
 
-      console.log('Interview updated with file URL');
+      await attachInterviewFile(interviewId, fileName);
 
       toast({
         title: 'Upload successful',
         description: 'Starting AI analysis...',
       });
 
-      onUploadComplete(interview.id);
+      onUploadComplete(interviewId);
       setCurrentStep('processing');
       
       // Process the file
-      await processFile(interview, selectedFile);
+      await processFile(interviewId, selectedFile);
 
     } catch (error: unknown) {
-      console.error('=== UPLOAD ERROR DETAILS ===');
-      console.error('Error type:', typeof error);
-      console.error('Error object:', error);
-      console.error('Error message:', error instanceof Error ? error.message : 'No message');
-      console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
-      console.error('User ID:', user?.id);
-      console.error('File name:', selectedFile?.name);
-      console.error('File size:', selectedFile?.size);
-      console.error('File type:', selectedFile?.type);
+      console.error('Upload error:', error);
       
-      const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
+      uploadHandle.current = null;
+      if (uploadInterrupted) {
+        // Everything stored so far is kept; choosing the same file again resumes from there
+        setPendingUploads(loadPendingUploads(user.id));
+        setSelectedFile(null);
+        toast({
+          title: 'Upload interrupted',
+          description: 'Select the same file again to resume where it stopped.',
+          variant: 'destructive',
+        });
+        setCurrentStep('idle');
+        return;
+      }
+      if (interviewId) {
+        removePendingUpload(interviewId);
+        await failInterview(interviewId, error);
+      }
       toast({
         title: 'Upload failed',
-        description: errorMessage,
+        description: error instanceof Error ? error.message : 'An unexpected error occurred.',
         variant: 'destructive',
       });
       setCurrentStep('idle');
     }
   };
 
-  const processFile = async (interview: InterviewRecord, file: File) => {
-    console.log('=== PROCESSING FILE ===');
-    console.log('File type:', file.type);
-    console.log('File size:', file.size);
-
+  const processFile = async (interviewId: string, file: File) => {
     try {
-      setProcessingProgress(0);
-
-      // Check if user is authenticated
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      // Get the current session
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      if (sessionError || !session) {
-        throw new Error('No valid session found');
-      }
-
-      console.log('User authenticated:', user.id);
-      console.log('Session token:', session.access_token ? 'Present' : 'Missing');
-
-      if (file.name.endsWith('.txt')) {
-        // Process text file
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          const transcript = e.target?.result as string;
-          
-          // Simulate processing progress
-          for (let i = 0; i <= 100; i += 20) {
-            setProcessingProgress(i);
-            await new Promise(resolve => setTimeout(resolve, 500));
-          }
-
-          console.log('Calling process-interview function...');
-          const { data, error } = await supabase.functions.invoke('process-interview', {
-            body: {
-              interviewId: interview.id,
-              transcript: transcript,
-              templateId: null,
-            },
-          });
-
-          if (error) {
-            console.error('Function error:', error);
-            throw error;
-          }
-
-          setCurrentStep('complete');
-          toast({
-            title: "Analysis complete!",
-            description: "Your interview has been successfully analyzed.",
-          });
-
-          onProcessingComplete();
-        };
-        reader.readAsText(file);
-      } else {
-        // Process audio file
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          const uint8Array = new Uint8Array(arrayBuffer);
-          let binary = '';
-          for (let i = 0; i < uint8Array.byteLength; i++) {
-            binary += String.fromCharCode(uint8Array[i]);
-          }
-          const base64Audio = btoa(binary);
-
-          // Simulate processing progress
-          for (let i = 0; i <= 100; i += 20) {
-            setProcessingProgress(i);
-            await new Promise(resolve => setTimeout(resolve, 500));
-          }
-
-          console.log('About to call transcribe-audio function...');
-          console.log('Interview ID:', interview.id);
-          console.log('Audio data length:', base64Audio.length);
-
-          const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-            body: {
-              interviewId: interview.id,
-              audioData: base64Audio,
-            },
-          });
-
-          console.log('Function response:', { data, error });
-
-          if (error) {
-            console.error('Function error:', error);
-            throw error;
-          }
-
-          setCurrentStep('complete');
-          toast({
-            title: "Analysis complete!",
-            description: "Your audio has been transcribed and analyzed.",
-          });
-
-          onProcessingComplete();
-        };
-        reader.readAsArrayBuffer(file);
-      }
+      const job = await queueInterviewProcessing(interviewId, user.id, file, formData.templateId);
+      setProcessingJobId(job.id);
     } catch (error: unknown) {
       console.error('Processing error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to process the file.';
+      await failInterview(interviewId, error);
       toast({
         title: "Processing failed",
-        description: errorMessage,
+        description: error instanceof Error ? error.message : 'Failed to process the file.',
         variant: "destructive",
       });
       setCurrentStep('idle');
@@ -352,10 +309,11 @@ export const StreamlinedUpload = ({
 
   const resetForm = () => {
     setSelectedFile(null);
-    setFormData({ candidateName: '', positionTitle: '' });
+    setFormData({ candidateName: '', positionTitle: '', templateId: null });
     setCurrentStep('idle');
     setUploadProgress(0);
-    setProcessingProgress(0);
+    setProcessingJobId(null);
+    setResumeTarget(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -368,14 +326,21 @@ export const StreamlinedUpload = ({
           <div className="mx-auto w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-4">
             <Upload className="h-8 w-8 text-primary animate-pulse" />
           </div>
-          <CardTitle>Uploading Interview</CardTitle>
-          <p className="text-muted-foreground">Please wait while we upload your file...</p>
+          <CardTitle>{isPaused ? 'Upload Paused' : 'Uploading Interview'}</CardTitle>
+          <p className="text-muted-foreground">
+            {isPaused ? 'Resume whenever you are ready.' : 'Please wait while we upload your file...'}
+          </p>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-3">
           <Progress value={uploadProgress} className="h-2" />
-          <p className="text-center text-sm text-muted-foreground mt-2">
+          <p className="text-center text-sm text-muted-foreground">
             {uploadProgress}% complete
+            {selectedFile && ` · ${(uploadedBytes / 1024 / 1024).toFixed(1)} of ${(selectedFile.size / 1024 / 1024).toFixed(1)} MB`}
           </p>
+          <Button variant="outline" onClick={togglePause} className="w-full">
+            {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+            {isPaused ? 'Resume Upload' : 'Pause Upload'}
+          </Button>
         </CardContent>
       </Card>
     );
@@ -430,6 +395,21 @@ export const StreamlinedUpload = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Uploads cut short by a reload or a lost connection */}
+        {pendingUploads.filter((upload) => upload.interviewId !== resumeTarget?.interviewId).map((upload) => (
+          <div key={upload.interviewId} className="flex items-center justify-between gap-2 p-3 border rounded-lg bg-amber-50 border-amber-200">
+            <div className="flex items-center gap-2 min-w-0">
+              <RotateCcw className="h-4 w-4 text-amber-700 shrink-0" />
+              <p className="text-sm text-amber-900 truncate">
+                Unfinished upload of <span className="font-medium">{upload.fileName}</span> ({upload.candidateName}). Select the same file to resume.
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => discardPendingUpload(upload)} title="Discard upload">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
         {/* File Upload Area */}
         {selectedFile ? (
           <div className="flex items-center justify-between p-4 border rounded-lg bg-muted">
@@ -449,7 +429,10 @@ export const StreamlinedUpload = ({
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => setSelectedFile(null)}
+              onClick={() => {
+                setSelectedFile(null);
+                setResumeTarget(null);
+              }}
             >
               <X className="h-4 w-4" />
             </Button>
@@ -471,12 +454,12 @@ export const StreamlinedUpload = ({
               Drop your interview file here
             </p>
             <p className="text-sm text-muted-foreground mb-4">
-              Supports .txt and audio files
+              Supports audio files and transcripts (.txt, .vtt, .srt, Teams .docx)
             </p>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".txt,.mp3,.wav,.m4a,.mp4,.aac,.ogg,.webm,.flac"
+              accept={acceptAttribute()}
               onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
               className="hidden"
             />
@@ -511,14 +494,21 @@ export const StreamlinedUpload = ({
           </div>
         </div>
 
+        <TemplatePicker
+          positionTitle={formData.positionTitle}
+          value={formData.templateId}
+          onChange={setTemplateId}
+          followDefaults={initialData?.templateId === undefined}
+        />
+
         {/* Upload Button */}
         <Button
           onClick={startUpload}
-          disabled={!selectedFile || !formData.candidateName.trim() || !formData.positionTitle.trim()}
+          disabled={!selectedFile || missingDetails(formData)}
           className="w-full"
         >
           <Sparkles className="h-4 w-4 mr-2" />
-          Start Analysis
+          {resumeTarget ? 'Resume Upload' : 'Start Analysis'}
         </Button>
       </CardContent>
     </Card>
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { diffSequences, diffWords, type DiffPart } from '@/lib/diff';
+import { asRating, asRows, cellText, isEmptyValue, sectionText } from '@/lib/summary-format';
+import { RATING_SCALE, summarySections, type TemplateSection } from '@/lib/summary-schema';
+import { versionLabel, type SummaryVersion } from '@/lib/summaries';
+import { ArrowRight, Columns2, Rows2 } from 'lucide-react';
+
+interface SummaryVersionDiffProps {
+  before: SummaryVersion;
+  after: SummaryVersion;
+}
+
+type Layout = 'side-by-side' | 'inline';
+
+type SectionStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+interface SectionComparison {
+  section: TemplateSection;
+  status: SectionStatus;
+  before: unknown;
+  after: unknown;
+  // Item-level changes, for bullet lists and tables
+  items?: DiffPart<string>[];
+}
+
+const contentOf = (version: SummaryVersion) =>
+  (version.status === 'completed' && version.summary_content ? version.summary_content : {}) as Record<string, unknown>;
+
+// Sections of the newer version in order, then any the older one had that were dropped
+const sectionsOf = (before: SummaryVersion, after: SummaryVersion): TemplateSection[] => {
+  const afterSections = summarySections(after.template_sections, contentOf(after));
+  const keys = new Set(afterSections.map((section) => section.key));
+  const dropped = summarySections(before.template_sections, contentOf(before)).filter((section) => !keys.has(section.key));
+  return [...afterSections, ...dropped];
+};
+
+// One line per list item or table row, used to match items across versions
+const itemsOf = (section: TemplateSection, value: unknown): string[] => {
+  if (isEmptyValue(value)) return [];
+  if (section.type === 'table') {
+    return asRows(value).map((row) => (section.columns ?? Object.keys(row)).map((column) => cellText(row[column])).join(' | '));
+  }
+  return Array.isArray(value) ? value.map(cellText) : [];
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function compareSections(before: SummaryVersion, after: SummaryVersion): SectionComparison[] {
+  const beforeContent = contentOf(before);
+  const afterContent = contentOf(after);
+
+  return sectionsOf(before, after).map((section) => {
+    const comparison = { section, before: beforeContent[section.key], after: afterContent[section.key] };
+
+    if (!(section.key in beforeContent)) return { ...comparison, status: 'added' };
+    if (!(section.key in afterContent)) return { ...comparison, status: 'removed' };
+
+    if (section.type === 'bullet_list' || section.type === 'table') {
+      const items = diffSequences(
+        itemsOf(section, comparison.before),
+        itemsOf(section, comparison.after),
+        (a, b) => normalize(a) === normalize(b),
+      );
+      return { ...comparison, items, status: items.some((part) => part.op !== 'equal') ? 'changed' : 'unchanged' };
+    }
+
+    const unchanged = sectionText(section, comparison.before) === sectionText(section, comparison.after);
+    return { ...comparison, status: unchanged ? 'unchanged' : 'changed' };
+  });
+}
+
+const STATUS_LABELS: Record<SectionStatus, string> = {
+  added: 'New section',
+  removed: 'Removed section',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const ADDED_CLASS = 'bg-green-100 text-green-900';
+const REMOVED_CLASS = 'bg-red-100 text-red-900 line-through';
+
+// "2 added, 1 removed" for list and table sections
+const itemChangeSummary = (items: DiffPart<string>[]) => {
+  const count = (op: DiffPart<string>['op']) =>
+    items.filter((part) => part.op === op).reduce((total, part) => total + part.items.length, 0);
+  return [
+    count('added') && `${count('added')} added`,
+    count('removed') && `${count('removed')} removed`,
+  ].filter(Boolean).join(', ');
+};
+
+// Text with the words only this side has highlighted; `side` picks which half of the diff to show
+const WordDiff = ({ parts, side }: { parts: DiffPart<string>[]; side: 'before' | 'after' | 'both' }) => (
+  <p className="text-foreground leading-relaxed whitespace-pre-wrap">
+    {parts
+      .filter((part) => side === 'both' || part.op === 'equal' || part.op === (side === 'before' ? 'removed' : 'added'))
+      .map((part, index) => (
+        <span
+          key={index}
+          className={part.op === 'added' ? ADDED_CLASS : part.op === 'removed' ? REMOVED_CLASS : undefined}
+        >
+          {part.items.join('')}
+        </span>
+      ))}
+  </p>
+);
+
+const ItemDiff = ({ items, side }: { items: DiffPart<string>[]; side: 'before' | 'after' | 'both' }) => {
+  const visible = items.filter((part) => side === 'both' || part.op === 'equal' || part.op === (side === 'before' ? 'removed' : 'added'));
+  if (visible.every((part) => part.items.length === 0)) {
+    return <p className="text-muted-foreground italic">Nothing listed.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {visible.flatMap((part, partIndex) => part.items.map((item, index) => (
+        <li
+          key={`${partIndex}-${index}`}
+          className={`rounded px-2 py-1 text-sm ${part.op === 'added' ? ADDED_CLASS : part.op === 'removed' ? REMOVED_CLASS : 'text-foreground'}`}
+        >
+          {part.op === 'added' ? '+ ' : part.op === 'removed' ? '− ' : ''}{item}
+        </li>
+      )))}
+    </ul>
+  );
+};
+
+const RatingChange = ({ before, after }: { before: unknown; after: unknown }) => {
+  const from = asRating(before)?.score;
+  const to = asRating(after)?.score;
+  if (from === undefined || to === undefined || from === to) return null;
+
+  return (
+    <Badge variant="outline" className={to > from ? 'text-green-700' : 'text-red-700'}>
+      {from}/{RATING_SCALE} → {to}/{RATING_SCALE}
+    </Badge>
+  );
+};
+
+const SectionDiff = ({ comparison, layout }: { comparison: SectionComparison; layout: Layout }) => {
+  const { section, status, items } = comparison;
+  const beforeText = status === 'added' ? '' : sectionText(section, comparison.before);
+  const afterText = status === 'removed' ? '' : sectionText(section, comparison.after);
+  const words = items ? null : diffWords(beforeText, afterText);
+
+  const half = (side: 'before' | 'after' | 'both') =>
+    items ? <ItemDiff items={items} side={side} /> : <WordDiff parts={words!} side={side} />;
+
+  return (
+    <Card className={status === 'unchanged' ? 'opacity-75' : undefined}>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-lg">{section.title}</CardTitle>
+        <div className="flex items-center gap-2">
+          {section.type === 'rating' && <RatingChange before={comparison.before} after={comparison.after} />}
+          {items && status === 'changed' && (
+            <span className="text-xs text-muted-foreground">{itemChangeSummary(items)}</span>
+          )}
+          <Badge variant={status === 'unchanged' ? 'secondary' : 'default'}>{STATUS_LABELS[status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {layout === 'inline' ? half('both') : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:border-r md:pr-4">
+              {status === 'added' ? <p className="text-muted-foreground italic">Not in this version.</p> : half('before')}
+            </div>
+            <div>
+              {status === 'removed' ? <p className="text-muted-foreground italic">Not in this version.</p> : half('after')}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const VersionHeading = ({ version }: { version: SummaryVersion }) => (
+  <div className="text-sm">
+    <p className="font-medium text-foreground">{versionLabel(version)}</p>
+    <p className="text-muted-foreground">
+      {new Date(version.created_at).toLocaleString()}
+      {version.processing_time_seconds !== null && ` · ${version.processing_time_seconds}s`}
+    </p>
+  </div>
+);
+
+// Section-by-section comparison of two analyses of the same interview, e.g. to
+// judge a new template or model against the analysis it would replace
+export const SummaryVersionDiff = ({ before, after }: SummaryVersionDiffProps) => {
+  const [layout, setLayout] = useState<Layout>('side-by-side');
+  const comparisons = compareSections(before, after);
+  const changedCount = comparisons.filter((comparison) => comparison.status !== 'unchanged').length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-4">
+            <VersionHeading version={before} />
+            <ArrowRight className="hidden md:block h-4 w-4 text-muted-foreground" />
+            <VersionHeading version={after} />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {changedCount === 0
+                ? 'Both versions are identical.'
+                : `${changedCount} of ${comparisons.length} sections differ.`}
+            </p>
+            <div className="flex gap-1">
+              <Button
+                variant={layout === 'side-by-side' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setLayout('side-by-side')}
+                className="gap-2"
+              >
+                <Columns2 className="h-4 w-4" />
+                Side by side
+              </Button>
+              <Button
+                variant={layout === 'inline' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setLayout('inline')}
+                className="gap-2"
+              >
+                <Rows2 className="h-4 w-4" />
+                Inline
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparisons.map((comparison) => (
+        <SectionDiff key={comparison.section.key} comparison={comparison} layout={layout} />
+      ))}
+    </div>
+  );
+};
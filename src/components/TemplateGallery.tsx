@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  forkTemplate,
+  groupByCategory,
+  loadGallery,
+  rateTemplate,
+  setTemplateStarred,
+  type GalleryTemplate,
+} from '@/lib/template-gallery';
+import { humanizeKey } from '@/lib/summary-schema';
+import { Copy, Search, Star, Users } from 'lucide-react';
+
+interface TemplateGalleryProps {
+  // Called after a template was copied into the user's templates
+  onForked: () => void;
+}
+
+const sectionTitles = (template: GalleryTemplate): string[] => {
+  const content = template.template_content;
+  const sections = content && typeof content === 'object' && !Array.isArray(content) ? content.sections : null;
+  return Array.isArray(sections)
+    ? sections.map((section) => (section as { title?: string }).title ?? '').filter(Boolean)
+    : [];
+};
+
+const RatingStars = ({ template, onRate, disabled }: {
+  template: GalleryTemplate;
+  onRate: (rating: number | null) => void;
+  disabled: boolean;
+}) => (
+  <div className="flex items-center gap-2">
+    <div className="flex" role="radiogroup" aria-label="Your rating">
+      {[1, 2, 3, 4, 5].map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          role="radio"
+          aria-checked={template.my_rating === rating}
+          aria-label={`${rating} of 5`}
+          disabled={disabled}
+          // Clicking the current rating again clears it
+          onClick={() => onRate(template.my_rating === rating ? null : rating)}
+          className="p-0.5 disabled:cursor-not-allowed"
+        >
+          <Star
+            className={`h-4 w-4 ${rating <= (template.my_rating ?? 0) ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground'}`}
+          />
+        </button>
+      ))}
+    </div>
+    <span className="text-xs text-muted-foreground">
+      {template.average_rating !== null
+        ? `${template.average_rating} (${template.rating_count})`
+        : 'No ratings yet'}
+    </span>
+  </div>
+);
+
+// Browsable public templates, grouped by category
+export const TemplateGallery = ({ onForked }: TemplateGalleryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<GalleryTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setTemplates(await loadGallery());
+    } catch (error: unknown) {
+      toast({
+        title: "Error loading gallery",
+        description: error instanceof Error ? error.message : 'Could not load the template gallery',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Runs a change to one template, then refreshes the stats it affects
+  const update = async (template: GalleryTemplate, change: () => Promise<unknown>, failure: string) => {
+    setBusyId(template.id);
+    try {
+      await change();
+      await reload();
+      return true;
+    } catch (error: unknown) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const fork = async (template: GalleryTemplate) => {
+    if (!user) return;
+    const forked = await update(template, () => forkTemplate(user.id, template), "Fork failed");
+    if (forked) {
+      toast({
+        title: "Template added",
+        description: `A copy of ${template.name} is now in your templates, ready to edit.`,
+      });
+      onForked();
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = templates.filter((template) =>
+    (!starredOnly || template.is_starred)
+    && (!query || [template.name, template.description, template.author_name]
+      .some((text) => text?.toLowerCase().includes(query))));
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading gallery...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search public templates"
+            className="pl-9"
+          />
+        </div>
+        <Button
+          variant={starredOnly ? 'secondary' : 'outline'}
+          onClick={() => setStarredOnly(!starredOnly)}
+          className="gap-2"
+        >
+          <Star className={`h-4 w-4 ${starredOnly ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+          Starred
+        </Button>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {templates.length === 0 ? 'No public templates yet.' : 'No templates match.'}
+        </p>
+      )}
+
+      {groupByCategory(visible).map(([category, group]) => (
+        <section key={category} className="space-y-3">
+          <h3 className="text-lg font-semibold text-foreground">{humanizeKey(category)}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {group.map((template) => {
+              const sections = sectionTitles(template);
+              const isOwn = template.user_id === user?.id;
+              return (
+                <Card key={template.id} className="flex flex-col">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1">
+                        <CardTitle className="text-base">{template.name}</CardTitle>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          by {isOwn ? 'you' : template.author_name}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => user && update(
+                          template,
+                          () => setTemplateStarred(user.id, template.id, !template.is_starred),
+                          "Could not update star",
+                        )}
+                        disabled={busyId === template.id}
+                        aria-pressed={template.is_starred}
+                        title={template.is_starred ? 'Unstar' : 'Star'}
+                        className="gap-1"
+                      >
+                        <Star className={`h-4 w-4 ${template.is_starred ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                        {template.star_count}
+                      </Button>
+                    </div>
+                    {template.description && (
+                      <p className="text-sm text-muted-foreground">{template.description}</p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="mt-auto space-y-3">
+                    <div className="flex flex-wrap gap-1">
+                      {sections.slice(0, 4).map((title) => (
+                        <Badge key={title} variant="outline" className="text-xs">{title}</Badge>
+                      ))}
+                      {sections.length > 4 && (
+                        <Badge variant="outline" className="text-xs">+{sections.length - 4} more</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        Used in {template.usage_count} interviews
+                      </span>
+                      <span>{template.fork_count} forks</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <RatingStars
+                        template={template}
+                        disabled={isOwn || busyId === template.id}
+                        onRate={(rating) => user && update(
+                          template,
+                          () => rateTemplate(user.id, template.id, rating),
+                          "Could not save rating",
+                        )}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => fork(template)}
+                        disabled={busyId === template.id}
+                        className="gap-2"
+                      >
+                        <Copy className="h-4 w-4" />
+                        Fork
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  describeTemplateChanges,
+  loadTemplateVersions,
+  restoreTemplateVersion,
+  type TemplateVersion,
+} from '@/lib/template-versions';
+import { History, RotateCcw } from 'lucide-react';
+
+interface TemplateHistoryProps {
+  template: { id: string; name: string; user_id: string } | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after a restore so the template list shows the restored content
+  onRestored: () => void;
+}
+
+export const TemplateHistory = ({ template, onOpenChange, onRestored }: TemplateHistoryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const isOwner = !!template && template.user_id === user?.id;
+
+  const loadVersions = useCallback(async (templateId: string) => {
+    setLoading(true);
+    try {
+      setVersions(await loadTemplateVersions(templateId));
+    } catch (error: unknown) {
+      toast({
+        title: "Error loading history",
+        description: error instanceof Error ? error.message : 'Could not load the template history',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const templateId = template?.id;
+  useEffect(() => {
+    if (templateId) loadVersions(templateId);
+    else setVersions([]);
+  }, [templateId, loadVersions]);
+
+  const restore = async (version: TemplateVersion) => {
+    if (!template) return;
+
+    setRestoringId(version.id);
+    try {
+      await restoreTemplateVersion(version.id);
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version} of ${template.name} is current again. Later versions are kept in the history.`,
+      });
+      await loadVersions(template.id);
+      onRestored();
+    } catch (error: unknown) {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : 'Could not restore this version',
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const authorOf = (version: TemplateVersion) =>
+    version.changed_by && version.changed_by === user?.id ? 'You' : version.changed_by_name ?? 'Unknown user';
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            History of {template?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Every saved change is kept as a version. Analyses remember the version they were produced with.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <ol className="space-y-3">
+            {versions.map((version, index) => (
+              <li key={version.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">Version {version.version}</span>
+                      {index === 0 && <Badge variant="secondary">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {authorOf(version)} · {new Date(version.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {isOwner && index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restore(version)}
+                      disabled={restoringId !== null}
+                      className="gap-2"
+                    >
+                      <RotateCcw className={`h-4 w-4 ${restoringId === version.id ? 'animate-spin' : ''}`} />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                <ul className="list-disc pl-5 text-sm text-foreground space-y-0.5">
+                  {describeTemplateChanges(versions[index + 1] ?? null, version).map((change) => (
+                    <li key={change}>{change}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  findConflicts,
+  importTemplates,
+  parseTemplateDocument,
+  TemplateImportError,
+  type ConflictResolution,
+  type ImportCandidate,
+} from '@/lib/template-transfer';
+import { AlertTriangle, Upload } from 'lucide-react';
+
+interface TemplateImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The user's templates, to detect name conflicts
+  existing: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  duplicate: 'Keep both',
+  overwrite: 'Overwrite mine',
+  skip: 'Skip',
+};
+
+export const TemplateImportDialog = ({ open, onOpenChange, existing, onImported }: TemplateImportDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [problems, setProblems] = useState<{ message: string; issues: string[] } | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setCandidates([]);
+    setProblems(null);
+  };
+
+  const readFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    try {
+      const templates = parseTemplateDocument(await file.text(), file.name);
+      setCandidates(findConflicts(templates, existing));
+    } catch (error: unknown) {
+      setProblems({
+        message: error instanceof Error ? error.message : 'The file could not be read',
+        issues: error instanceof TemplateImportError ? error.issues : [],
+      });
+    }
+  };
+
+  const setResolution = (index: number, resolution: ConflictResolution) => {
+    setCandidates((prev) => prev.map((candidate, i) => (i === index ? { ...candidate, resolution } : candidate)));
+  };
+
+  const runImport = async () => {
+    if (!user) return;
+
+    setImporting(true);
+    try {
+      const count = await importTemplates(user.id, candidates, existing.map((template) => template.name));
+      toast({
+        title: "Templates imported",
+        description: `${count} template${count === 1 ? '' : 's'} imported.`,
+      });
+      reset();
+      onOpenChange(false);
+      onImported();
+    } catch (error: unknown) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : 'Could not import the templates',
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const conflicts = candidates.filter((candidate) => candidate.conflictId).length;
+  const toImport = candidates.filter((candidate) => candidate.resolution !== 'skip').length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (importing) return;
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Templates</DialogTitle>
+          <DialogDescription>
+            Choose a JSON or YAML file exported from Analysis Templates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateFile">Template file</Label>
+            <Input
+              id="templateFile"
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+              onChange={(e) => readFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {problems && (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {problems.message}
+              </div>
+              {problems.issues.length > 0 && (
+                <ul className="list-disc pl-5 text-xs text-foreground space-y-0.5">
+                  {problems.issues.map((issue) => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {candidates.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {candidates.length} template{candidates.length === 1 ? '' : 's'} found
+                {conflicts > 0 && `, ${conflicts} with the same name as one of yours`}.
+              </p>
+              <ul className="space-y-2">
+                {candidates.map((candidate, index) => (
+                  <li key={index} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{candidate.template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {candidate.template.sections.length} sections
+                        {candidate.template.category && ` · ${candidate.template.category}`}
+                      </p>
+                    </div>
+                    {candidate.conflictId ? (
+                      <Select
+                        value={candidate.resolution}
+                        onValueChange={(value) => setResolution(index, value as ConflictResolution)}
+                      >
+                        <SelectTrigger className="w-40 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((resolution) => (
+                            <SelectItem key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary" className="shrink-0">New</Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+            disabled={importing}
+          >
+            Cancel
+          </Button>
+          <Button onClick={runImport} disabled={importing || toImport === 0} className="gap-2">
+            <Upload className="h-4 w-4" />
+            {importing ? 'Importing...' : `Import ${toImport || ''}`.trim()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -8,10 +8,19 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Plus, Edit, Trash2, Copy, Star } from 'lucide-react';
+import { TemplateGallery } from '@/components/TemplateGallery';
+import { TemplateHistory } from '@/components/TemplateHistory';
+import { TemplateImportDialog } from '@/components/TemplateImportDialog';
+import { TemplateSectionsEditor } from '@/components/TemplateSectionsEditor';
+import { TemplateTestRun } from '@/components/TemplateTestRun';
+import { DEFAULT_SECTIONS, templateContentSchema, type TemplateSection } from '@/lib/summary-schema';
+import { exportFileName, exportTemplates, type TemplateFileFormat } from '@/lib/template-transfer';
+import { Plus, Edit, Trash2, Copy, History, Download, Upload } from 'lucide-react';
 
 interface Template {
   id: string;
@@ -22,6 +31,8 @@ interface Template {
   is_public: boolean;
   created_at: string;
   user_id: string;
+  version: number;
+  forked_from_id: string | null;
 }
 
 export const TemplateManager = () => {
@@ -31,19 +42,22 @@ export const TemplateManager = () => {
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
-  const [formData, setFormData] = useState({
+  const [historyTemplate, setHistoryTemplate] = useState<Template | null>(null);
+  const [tab, setTab] = useState('mine');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Templates ticked for export; none ticked exports them all
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [formData, setFormData] = useState<{
+    name: string;
+    description: string;
+    category: string;
+    template_content: { sections: TemplateSection[] };
+    is_public: boolean;
+  }>({
     name: '',
     description: '',
     category: 'general',
-    template_content: {
-      sections: [
-        { key: 'jobSummary', title: 'Job Summary', required: true },
-        { key: 'mustHaves', title: 'Must-Haves', required: true },
-        { key: 'challenges', title: 'Challenges', required: true },
-        { key: 'jobDescription', title: 'Job Description', required: true },
-        { key: 'recapEmail', title: 'Recap Email', required: true }
-      ]
-    },
+    template_content: { sections: DEFAULT_SECTIONS },
     is_public: false
   });
 
@@ -58,7 +72,8 @@ export const TemplateManager = () => {
       const { data, error } = await supabase
         .from('summary_templates')
         .select('*')
-        .or(`user_id.eq.${user?.id},is_public.eq.true`)
+        // Other users' public templates are browsed in the gallery
+        .eq('user_id', user?.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -74,6 +89,28 @@ export const TemplateManager = () => {
     }
   };
 
+  // The sections being edited, validated; shows what is wrong and returns null if invalid
+  const validatedContent = () => {
+    // Drop blank table columns left over from editing before validating
+    const content = templateContentSchema.safeParse({
+      sections: formData.template_content.sections.map((section) => ({
+        ...section,
+        columns: section.type === 'table' ? section.columns?.map((column) => column.trim()).filter(Boolean) : undefined,
+      })),
+    });
+    if (!content.success) {
+      const issue = content.error.issues[0];
+      const section = typeof issue.path[1] === 'number' ? formData.template_content.sections[issue.path[1]] : null;
+      toast({
+        title: "Invalid section",
+        description: `${section ? `${section.title || 'Untitled section'}: ` : ''}${issue.path[2] ? `${String(issue.path[2])} ` : ''}${issue.message}`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    return content.data;
+  };
+
   const saveTemplate = async () => {
     if (!formData.name.trim()) {
       toast({
@@ -84,6 +121,9 @@ export const TemplateManager = () => {
       return;
     }
 
+    const content = validatedContent();
+    if (!content) return;
+
     try {
       if (editingTemplate) {
         const { error } = await supabase
@@ -92,7 +132,7 @@ export const TemplateManager = () => {
             name: formData.name,
             description: formData.description,
             category: formData.category,
-            template_content: formData.template_content,
+            template_content: content,
             is_public: formData.is_public
           })
           .eq('id', editingTemplate.id)
@@ -101,7 +141,7 @@ export const TemplateManager = () => {
         if (error) throw error;
         toast({
           title: "Template updated",
-          description: "Your template has been updated successfully.",
+          description: "Your changes were saved as a new version. Earlier analyses keep the version they used.",
         });
       } else {
         const { error } = await supabase
@@ -111,7 +151,7 @@ export const TemplateManager = () => {
             name: formData.name,
             description: formData.description,
             category: formData.category,
-            template_content: formData.template_content,
+            template_content: content,
             is_public: formData.is_public
           });
 
@@ -157,20 +197,45 @@ export const TemplateManager = () => {
     }
   };
 
+  const toggleSelected = (templateId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(templateId)) next.delete(templateId);
+      else next.add(templateId);
+      return next;
+    });
+  };
+
+  const downloadTemplates = (format: TemplateFileFormat) => {
+    const chosen = selectedIds.size
+      ? templates.filter((template) => selectedIds.has(template.id))
+      : templates;
+    if (chosen.length === 0) return;
+
+    const blob = new Blob([exportTemplates(chosen, format)], {
+      type: format === 'yaml' ? 'application/yaml' : 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exportFileName(chosen, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Templates exported",
+      description: `${chosen.length} template${chosen.length === 1 ? '' : 's'} exported as ${format.toUpperCase()}.`,
+    });
+  };
+
   const resetForm = () => {
     setFormData({
       name: '',
       description: '',
       category: 'general',
-      template_content: {
-        sections: [
-          { key: 'jobSummary', title: 'Job Summary', required: true },
-          { key: 'mustHaves', title: 'Must-Haves', required: true },
-          { key: 'challenges', title: 'Challenges', required: true },
-          { key: 'jobDescription', title: 'Job Description', required: true },
-          { key: 'recapEmail', title: 'Recap Email', required: true }
-        ]
-      },
+      template_content: { sections: DEFAULT_SECTIONS },
       is_public: false
     });
     setEditingTemplate(null);
@@ -182,7 +247,14 @@ export const TemplateManager = () => {
       name: template.name,
       description: template.description,
       category: template.category,
-      template_content: template.template_content,
+      // Templates saved before sections had types only carry key, title and required
+      template_content: {
+        sections: (template.template_content?.sections ?? []).map((section: Partial<TemplateSection>) => ({
+          type: 'text',
+          required: true,
+          ...section,
+        })),
+      },
       is_public: template.is_public
     });
     setIsDialogOpen(true);
@@ -200,136 +272,209 @@ export const TemplateManager = () => {
           <h2 className="text-2xl font-bold text-foreground">Analysis Templates</h2>
           <p className="text-muted-foreground">Create and manage custom analysis templates</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openCreateDialog}>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Template
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>
-                {editingTemplate ? 'Edit Template' : 'Create New Template'}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="templateName">Template Name</Label>
-                <Input
-                  id="templateName"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="Enter template name"
-                />
-              </div>
-              <div>
-                <Label htmlFor="templateDescription">Description</Label>
-                <Textarea
-                  id="templateDescription"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Describe what this template analyzes"
-                />
-              </div>
-              <div>
-                <Label htmlFor="templateCategory">Category</Label>
-                <Select
-                  value={formData.category}
-                  onValueChange={(value) => setFormData({ ...formData, category: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="general">General</SelectItem>
-                    <SelectItem value="technical">Technical</SelectItem>
-                    <SelectItem value="executive">Executive</SelectItem>
-                    <SelectItem value="sales">Sales</SelectItem>
-                    <SelectItem value="marketing">Marketing</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="isPublic"
-                  checked={formData.is_public}
-                  onChange={(e) => setFormData({ ...formData, is_public: e.target.checked })}
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={templates.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                {selectedIds.size ? `Export ${selectedIds.size}` : 'Export all'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => downloadTemplates('json')}>As JSON</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => downloadTemplates('yaml')}>As YAML</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Template
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingTemplate ? 'Edit Template' : 'Create New Template'}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="templateName">Template Name</Label>
+                  <Input
+                    id="templateName"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Enter template name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="templateDescription">Description</Label>
+                  <Textarea
+                    id="templateDescription"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Describe what this template analyzes"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="templateCategory">Category</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData({ ...formData, category: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="general">General</SelectItem>
+                      <SelectItem value="technical">Technical</SelectItem>
+                      <SelectItem value="executive">Executive</SelectItem>
+                      <SelectItem value="sales">Sales</SelectItem>
+                      <SelectItem value="marketing">Marketing</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <TemplateSectionsEditor
+                  sections={formData.template_content.sections}
+                  onChange={(sections) => setFormData({ ...formData, template_content: { sections } })}
                 />
-                <Label htmlFor="isPublic">Make this template public</Label>
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={saveTemplate}>
-                  {editingTemplate ? 'Update Template' : 'Create Template'}
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      </div>
-
-      {loading ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {[...Array(6)].map((_, i) => (
-            <Card key={i} className="animate-pulse">
-              <CardHeader>
-                <div className="h-4 bg-muted rounded w-3/4"></div>
-                <div className="h-3 bg-muted rounded w-1/2"></div>
-              </CardHeader>
-            </Card>
-          ))}
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {templates.map((template) => (
-            <Card key={template.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <CardTitle className="flex items-center gap-2">
-                      {template.name}
-                      {template.is_public && <Star className="h-4 w-4 text-yellow-500" />}
-                    </CardTitle>
-                    <p className="text-sm text-muted-foreground mt-1">
-                      {template.description}
-                    </p>
-                  </div>
-                  <Badge variant="secondary">{template.category}</Badge>
+                <TemplateTestRun getContent={validatedContent} />
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="isPublic"
+                    checked={formData.is_public}
+                    onChange={(e) => setFormData({ ...formData, is_public: e.target.checked })}
+                  />
+                  <Label htmlFor="isPublic">Make this template public</Label>
                 </div>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
-                  <span className="text-xs text-muted-foreground">
-                    {template.template_content.sections?.length || 0} sections
-                  </span>
-                  <div className="flex items-center gap-1">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => openEditDialog(template)}
-                      disabled={template.user_id !== user?.id}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteTemplate(template.id)}
-                      disabled={template.user_id !== user?.id}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={saveTemplate}>
+                    {editingTemplate ? 'Update Template' : 'Create Template'}
+                  </Button>
                 </div>
-              </CardContent>
-            </Card>
-          ))}
+              </div>
+            </DialogContent>
+          </Dialog>
         </div>
-      )}
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="mine">My Templates</TabsTrigger>
+          <TabsTrigger value="gallery">Gallery</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="mine" className="mt-4">
+          {loading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {[...Array(6)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardHeader>
+                    <div className="h-4 bg-muted rounded w-3/4"></div>
+                    <div className="h-3 bg-muted rounded w-1/2"></div>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You have no templates yet. Create one, or fork a public template from the gallery.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {templates.map((template) => (
+                <Card key={template.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <CardTitle className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(template.id)}
+                            onChange={() => toggleSelected(template.id)}
+                            aria-label={`Select ${template.name} for export`}
+                          />
+                          {template.name}
+                          {template.is_public && <Badge variant="outline">Public</Badge>}
+                          {template.forked_from_id && <Badge variant="outline">Forked</Badge>}
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {template.description}
+                        </p>
+                      </div>
+                      <Badge variant="secondary">{template.category}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        {template.template_content.sections?.length || 0} sections · v{template.version}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryTemplate(template)}
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditDialog(template)}
+                          disabled={template.user_id !== user?.id}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteTemplate(template.id)}
+                          disabled={template.user_id !== user?.id}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="gallery" className="mt-4">
+          <TemplateGallery
+            onForked={() => {
+              loadTemplates();
+              setTab('mine');
+            }}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <TemplateImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        existing={templates}
+        onImported={loadTemplates}
+      />
+
+      <TemplateHistory
+        template={historyTemplate}
+        onOpenChange={(open) => !open && setHistoryTemplate(null)}
+        onRestored={loadTemplates}
+      />
     </div>
   );
 };
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { SECTION_TYPE_LABELS } from '@/lib/summary-schema';
+import {
+  loadTemplateDefaults,
+  loadTemplateOptions,
+  positionKey,
+  resolveTemplateId,
+  saveDefaultTemplate,
+  savePositionTemplate,
+  sectionsOf,
+  type TemplateDefaults,
+  type TemplateOption,
+} from '@/lib/templates';
+import { LayoutTemplate } from 'lucide-react';
+
+interface TemplatePickerProps {
+  positionTitle: string;
+  // null selects the built-in analysis
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+  // Preselect the user's defaults for the position; off when the choice was made elsewhere
+  followDefaults?: boolean;
+  // Offer to save the choice as the user's or the position's default
+  allowSavingDefaults?: boolean;
+}
+
+// Radix Select needs a non-empty value for the built-in analysis option
+const BUILT_IN = 'built-in';
+
+const LIMIT_UNITS = { text: 'words', bullet_list: 'items', rating: 'words', table: 'rows' } as const;
+
+export const TemplatePicker = ({ positionTitle, value, onChange, followDefaults = true, allowSavingDefaults = true }: TemplatePickerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [defaults, setDefaults] = useState<TemplateDefaults>({ defaultTemplateId: null, byPosition: {} });
+  const [loaded, setLoaded] = useState(false);
+  // Once the user picks a template themselves, stop following the defaults
+  const pickedByUser = useRef(!followDefaults);
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all([loadTemplateOptions(user.id), loadTemplateDefaults(user.id)])
+      .then(([options, templateDefaults]) => {
+        setTemplates(options);
+        setDefaults(templateDefaults);
+        setLoaded(true);
+      })
+      .catch((error: unknown) => {
+        toast({
+          title: "Error loading templates",
+          description: error instanceof Error ? error.message : 'Could not load your templates',
+          variant: "destructive",
+        });
+      });
+  }, [user, toast]);
+
+  // Preselect the default for the position being entered
+  useEffect(() => {
+    if (!loaded || pickedByUser.current) return;
+
+    const resolved = resolveTemplateId(defaults, positionTitle);
+    const available = resolved && templates.some((template) => template.id === resolved) ? resolved : null;
+    if (available !== value) onChange(available);
+  }, [loaded, defaults, templates, positionTitle, value, onChange]);
+
+  const selected = templates.find((template) => template.id === value) ?? null;
+  const sections = sectionsOf(selected);
+  const position = positionTitle.trim();
+  const positionDefault = position ? defaults.byPosition[positionKey(position)] ?? null : null;
+
+  const makeDefault = async () => {
+    if (!user) return;
+    try {
+      await saveDefaultTemplate(user.id, value);
+      setDefaults((prev) => ({ ...prev, defaultTemplateId: value }));
+      toast({
+        title: "Default template saved",
+        description: `${selected?.name ?? 'The built-in analysis'} is now preselected for new interviews.`,
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save your default template',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveForPosition = async () => {
+    if (!user || !position) return;
+    try {
+      await savePositionTemplate(user.id, position, value);
+      setDefaults((prev) => {
+        const byPosition = { ...prev.byPosition };
+        if (value) byPosition[positionKey(position)] = value;
+        else delete byPosition[positionKey(position)];
+        return { ...prev, byPosition };
+      });
+      toast({
+        title: "Position template saved",
+        description: value
+          ? `${selected?.name} will be preselected for "${position}" interviews.`
+          : `"${position}" interviews will use your default template.`,
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save the position template',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="analysisTemplate">Analysis Template</Label>
+      <Select
+        value={value ?? BUILT_IN}
+        onValueChange={(selectedValue) => {
+          pickedByUser.current = true;
+          onChange(selectedValue === BUILT_IN ? null : selectedValue);
+        }}
+      >
+        <SelectTrigger id="analysisTemplate">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BUILT_IN}>Hiring sync (built-in)</SelectItem>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}{template.isOwn ? '' : ' (public)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Preview of what the analysis will contain */}
+      <div className="rounded-lg border bg-muted/50 p-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <LayoutTemplate className="h-3 w-3" />
+          {sections.length} sections will be generated
+        </div>
+        <ul className="space-y-1">
+          {sections.map((section) => (
+            <li key={section.key} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                {section.title}
+                {!section.required && <span className="text-muted-foreground"> (optional)</span>}
+              </span>
+              <Badge variant="outline" className="shrink-0 text-xs">
+                {SECTION_TYPE_LABELS[section.type]}
+                {section.maxLength ? ` · ≤${section.maxLength} ${LIMIT_UNITS[section.type]}` : ''}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {allowSavingDefaults && (
+        <div className="flex flex-wrap gap-2">
+          {value !== defaults.defaultTemplateId && (
+            <Button type="button" variant="ghost" size="sm" onClick={makeDefault}>
+              Make my default
+            </Button>
+          )}
+          {position && value !== positionDefault && (
+            <Button type="button" variant="ghost" size="sm" onClick={saveForPosition}>
+              Always use for "{position}"
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  SECTION_TYPES,
+  SECTION_TYPE_LABELS,
+  type SectionType,
+  type TemplateSection,
+} from '@/lib/summary-schema';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+
+interface TemplateSectionsEditorProps {
+  sections: TemplateSection[];
+  onChange: (sections: TemplateSection[]) => void;
+}
+
+// What maxLength counts for each section type
+const LIMIT_LABELS: Record<SectionType, string> = {
+  text: 'Max words',
+  bullet_list: 'Max items',
+  rating: 'Max words of rationale',
+  table: 'Max rows',
+};
+
+// "Culture Fit" -> "cultureFit", the key the analysis JSON uses for the section
+const keyFromTitle = (title: string) =>
+  title
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word, index) => (index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join('')
+    .replace(/^[^A-Za-z]+/, '');
+
+export const TemplateSectionsEditor = ({ sections, onChange }: TemplateSectionsEditorProps) => {
+  const update = (index: number, changes: Partial<TemplateSection>) => {
+    onChange(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const updateTitle = (index: number, title: string) => {
+    const section = sections[index];
+    // Keep deriving the key from the title until it has been edited by hand
+    const keyFollowsTitle = !section.key || section.key === keyFromTitle(section.title);
+    update(index, keyFollowsTitle ? { title, key: keyFromTitle(title) } : { title });
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...sections];
+    const [section] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, section);
+    onChange(reordered);
+  };
+
+  const addSection = () => {
+    onChange([...sections, { key: '', title: '', type: 'text', required: true }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Sections</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addSection}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Section
+        </Button>
+      </div>
+
+      {sections.map((section, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor={`section-title-${index}`} className="text-xs text-muted-foreground">Title</Label>
+              <Input
+                id={`section-title-${index}`}
+                value={section.title}
+                onChange={(e) => updateTitle(index, e.target.value)}
+                placeholder="e.g. Culture Fit"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`section-key-${index}`} className="text-xs text-muted-foreground">Key</Label>
+              <Input
+                id={`section-key-${index}`}
+                value={section.key}
+                onChange={(e) => update(index, { key: e.target.value })}
+                placeholder="cultureFit"
+                className="font-mono"
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-muted-foreground">Type</Label>
+              <Select
+                value={section.type}
+                onValueChange={(value) => update(index, { type: value as SectionType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SECTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{SECTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`section-limit-${index}`} className="text-xs text-muted-foreground">
+                {LIMIT_LABELS[section.type]}
+              </Label>
+              <Input
+                id={`section-limit-${index}`}
+                type="number"
+                min={1}
+                value={section.maxLength ?? ''}
+                onChange={(e) => update(index, { maxLength: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          {section.type === 'table' && (
+            <div>
+              <Label htmlFor={`section-columns-${index}`} className="text-xs text-muted-foreground">Columns (comma separated)</Label>
+              <Input
+                id={`section-columns-${index}`}
+                value={(section.columns ?? []).join(', ')}
+                onChange={(e) => update(index, { columns: e.target.value.split(',').map((column) => column.trimStart()) })}
+                placeholder="Skill, Evidence, Level"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor={`section-instructions-${index}`} className="text-xs text-muted-foreground">Instructions for the AI</Label>
+            <Textarea
+              id={`section-instructions-${index}`}
+              value={section.instructions ?? ''}
+              onChange={(e) => update(index, { instructions: e.target.value || undefined })}
+              placeholder="What this section should cover"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`section-required-${index}`}
+                checked={section.required}
+                onChange={(e) => update(index, { required: e.target.checked })}
+              />
+              <Label htmlFor={`section-required-${index}`} className="text-sm">Required</Label>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button type="button" variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move section up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === sections.length - 1} aria-label="Move section down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(sections.filter((_, i) => i !== index))} disabled={sections.length === 1} aria-label="Remove section">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
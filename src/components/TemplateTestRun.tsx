@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ResultsDisplay } from '@/components/ResultsDisplay';
+import { useToast } from '@/hooks/use-toast';
+import type { TemplateSection } from '@/lib/summary-schema';
+import {
+  loadSampleTranscripts,
+  testRunTemplate,
+  TestRunError,
+  type SampleTranscript,
+  type TestRunResult,
+} from '@/lib/summaries';
+import { FlaskConical, Play } from 'lucide-react';
+
+interface TemplateTestRunProps {
+  // The draft's validated content, or null after telling the user what is wrong with it
+  getContent: () => { sections: TemplateSection[] } | null;
+}
+
+// Radix Select needs a non-empty value for the paste option
+const PASTED = 'pasted';
+
+// "Try it" panel for the template dialog: analyses a transcript with the draft
+// as it stands, without saving the template or storing the analysis
+export const TemplateTestRun = ({ getContent }: TemplateTestRunProps) => {
+  const { toast } = useToast();
+  const [samples, setSamples] = useState<SampleTranscript[]>([]);
+  const [source, setSource] = useState(PASTED);
+  const [pasted, setPasted] = useState('');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<TestRunResult | null>(null);
+  const [failure, setFailure] = useState<{ message: string; rawResponse: string | null } | null>(null);
+
+  useEffect(() => {
+    loadSampleTranscripts()
+      .then(setSamples)
+      .catch(() => setSamples([]));
+  }, []);
+
+  const sample = samples.find((option) => option.interviewId === source) ?? null;
+  const transcript = sample ? sample.transcript : pasted;
+
+  const run = async () => {
+    if (!transcript.trim()) {
+      toast({
+        title: "No transcript",
+        description: "Paste a transcript or pick one of your interviews to try the template on.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const content = getContent();
+    if (!content) return;
+
+    setRunning(true);
+    setResult(null);
+    setFailure(null);
+    try {
+      setResult(await testRunTemplate({
+        transcript,
+        templateContent: content,
+        interviewId: sample?.interviewId ?? null,
+      }));
+    } catch (error: unknown) {
+      setFailure({
+        message: error instanceof Error ? error.message : 'The test run failed',
+        rawResponse: error instanceof TestRunError ? error.rawResponse : null,
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-primary" />
+        <h3 className="font-medium text-foreground">Try it</h3>
+        <span className="text-xs text-muted-foreground">Nothing is saved</span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="testRunSource">Transcript</Label>
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger id="testRunSource">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PASTED}>Paste a transcript</SelectItem>
+            {samples.map((option) => (
+              <SelectItem key={option.interviewId} value={option.interviewId}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {sample ? (
+          <p className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">{sample.transcript}</p>
+        ) : (
+          <Textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste an interview transcript"
+            rows={5}
+          />
+        )}
+      </div>
+
+      <Button type="button" variant="secondary" onClick={run} disabled={running} className="gap-2">
+        <Play className="h-4 w-4" />
+        {running ? 'Analysing...' : 'Run draft template'}
+      </Button>
+
+      {failure && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 space-y-2">
+          <p className="text-sm font-medium text-destructive">{failure.message}</p>
+          {failure.rawResponse && (
+            <pre className="max-h-40 overflow-auto text-xs text-foreground whitespace-pre-wrap">{failure.rawResponse}</pre>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {result.model} · {result.processingTimeSeconds}s
+          </p>
+          <ResultsDisplay results={result.summary} sections={result.sections} filename={sample?.label ?? 'Pasted transcript'} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { formatTimestamp, speakerName, type SpeakerLabels, type TranscriptSegment } from '@/lib/transcript';
+
+interface TranscriptSegmentsProps {
+  segments: TranscriptSegment[];
+  speakerLabels?: SpeakerLabels;
+  activeSegmentId?: string | null;
+  onSegmentClick?: (segment: TranscriptSegment) => void;
+  // Keep the active segment in view as it changes (e.g. during playback)
+  autoScroll?: boolean;
+}
+
+// Segments the transcription model was unsure about are flagged for review
+const LOW_CONFIDENCE = 0.5;
+
+export const TranscriptSegments = ({ segments, speakerLabels = {}, activeSegmentId, onSegmentClick, autoScroll = false }: TranscriptSegmentsProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!autoScroll || !container || !active) return;
+
+    // Scroll only the transcript list (not the page), keeping the active line in the upper third
+    // (the container is `relative`, so offsetTop is measured from its top)
+    const top = active.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeSegmentId, autoScroll]);
+
+  return (
+    <div ref={containerRef} className="relative max-h-[480px] overflow-y-auto space-y-1 pr-1">
+      {segments.map((segment) => (
+        <button
+          key={segment.id}
+          ref={activeSegmentId === segment.id ? activeRef : undefined}
+          type="button"
+          onClick={() => onSegmentClick?.(segment)}
+          className={cn(
+            "w-full flex gap-4 rounded-md px-3 py-2 text-left transition-colors hover:bg-muted",
+            activeSegmentId === segment.id && "bg-primary/10 hover:bg-primary/10"
+          )}
+        >
+          <span className="shrink-0 w-16 pt-0.5 font-mono text-xs text-primary">
+            {formatTimestamp(segment.start_seconds)}
+          </span>
+          <span className="flex-1 text-sm">
+            {segment.speaker && (
+              <span className="font-medium text-foreground mr-2">{speakerName(segment.speaker, speakerLabels)}:</span>
+            )}
+            <span
+              className={cn(
+                "text-foreground",
+                segment.confidence !== null && segment.confidence < LOW_CONFIDENCE && "text-muted-foreground italic"
+              )}
+              title={segment.confidence !== null ? `Confidence ${Math.round(segment.confidence * 100)}%` : undefined}
+            >
+              {segment.text}
+            </span>
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
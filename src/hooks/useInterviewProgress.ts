@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { isStageFinished, type InterviewProgress } from '@/lib/processing-stage';
+
+const PROGRESS_COLUMNS = 'id, status, processing_stage, processing_error, processing_stage_at, file_name';
+
+// Follows an interview's processing stage over Realtime. The row is also read
+// up front and again whenever the subscription (re)connects, so nothing is
+// missed while the tab was closed or the connection dropped.
+export function useInterviewProgress(interviewId: string | null) {
+  const [progress, setProgress] = useState<InterviewProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!interviewId) {
+      setProgress(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('interviews')
+        .select(PROGRESS_COLUMNS)
+        .eq('id', interviewId)
+        .single();
+
+      if (cancelled) return;
+      if (error) {
+        setError(error.message);
+      } else {
+        setError(null);
+        setProgress(data);
+      }
+    };
+
+    const channel = supabase
+      .channel(`interview-progress-${interviewId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'interviews', filter: `id=eq.${interviewId}` },
+        (payload) => {
+          const row = payload.new as InterviewProgress;
+          setProgress({
+            id: row.id,
+            status: row.status,
+            processing_stage: row.processing_stage,
+            processing_error: row.processing_error,
+            processing_stage_at: row.processing_stage_at,
+            file_name: row.file_name,
+          });
+        },
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    load();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [interviewId]);
+
+  return { progress, error, isFinished: isStageFinished(progress?.processing_stage ?? null) };
+}
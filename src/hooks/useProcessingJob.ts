@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { isJobFinished, startProcessingWorker, type ProcessingJob } from '@/lib/processing-jobs';
+
+const POLL_INTERVAL_MS = 3000;
+// A queued job that nobody picked up this long after it became runnable
+// means no worker is running; wake one up.
+const STALLED_AFTER_MS = 30000;
+
+export function useProcessingJob(jobId: string | null) {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!jobId) {
+      setJob(null);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    let lastWakeUp = 0;
+
+    const poll = async () => {
+      const { data, error } = await supabase
+        .from('processing_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+      if (cancelled) return;
+
+      if (error) {
+        setError(error.message);
+      } else {
+        setError(null);
+        setJob(data);
+
+        const now = Date.now();
+        const stalled = data.status === 'queued' && now - new Date(data.run_after).getTime() > STALLED_AFTER_MS;
+        if (stalled && now - lastWakeUp > STALLED_AFTER_MS) {
+          lastWakeUp = now;
+          startProcessingWorker();
+        }
+
+        if (isJobFinished(data)) return;
+      }
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  return { job, error, isFinished: isJobFinished(job) };
+}
@@ -44,36 +44,111 @@ export type Database = {
         }
         Relationships: []
       }
+      interview_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          id: string
+          interview_id: string
+          invited_by: string | null
+          message: string | null
+          share_link_id: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          interview_id: string
+          invited_by?: string | null
+          message?: string | null
+          share_link_id: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          interview_id?: string
+          invited_by?: string | null
+          message?: string | null
+          share_link_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_invitations_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: true
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       interview_summaries: {
         Row: {
           ai_model_used: string | null
+          audio_segments_processed: number | null
           created_at: string
+          error_message: string | null
           id: string
           interview_id: string
           processing_time_seconds: number | null
+          raw_response: string | null
+          status: string
           summary_content: Json | null
           template_id: string | null
+          template_sections: Json | null
+          template_version_id: string | null
           transcript_text: string | null
+          version: number
         }
         Insert: {
           ai_model_used?: string | null
+          audio_segments_processed?: number | null
           created_at?: string
+          error_message?: string | null
           id?: string
           interview_id: string
           processing_time_seconds?: number | null
+          raw_response?: string | null
+          status?: string
           summary_content?: Json | null
           template_id?: string | null
+          template_sections?: Json | null
+          template_version_id?: string | null
           transcript_text?: string | null
+          version?: number
         }
         Update: {
           ai_model_used?: string | null
+          audio_segments_processed?: number | null
           created_at?: string
+          error_message?: string | null
           id?: string
           interview_id?: string
           processing_time_seconds?: number | null
+          raw_response?: string | null
+          status?: string
           summary_content?: Json | null
           template_id?: string | null
+          template_sections?: Json | null
+          template_version_id?: string | null
           transcript_text?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -90,6 +165,13 @@ export type Database = {
             referencedRelation: "summary_templates"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "interview_summaries_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "summary_template_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       interviews: {
@@ -100,12 +182,16 @@ export type Database = {
           duration_seconds: number | null
           file_name: string
           file_size: number | null
-          file_url: string | null
           id: string
           interview_date: string | null
           position_title: string | null
+          processing_error: string | null
+          processing_stage: string | null
+          processing_stage_at: string | null
           retention_until: string | null
+          speaker_labels: Json
           status: string | null
+          storage_path: string | null
           updated_at: string
           user_id: string
         }
@@ -116,12 +202,16 @@ export type Database = {
           duration_seconds?: number | null
           file_name: string
           file_size?: number | null
-          file_url?: string | null
           id?: string
           interview_date?: string | null
           position_title?: string | null
+          processing_error?: string | null
+          processing_stage?: string | null
+          processing_stage_at?: string | null
           retention_until?: string | null
+          speaker_labels?: Json
           status?: string | null
+          storage_path?: string | null
           updated_at?: string
           user_id: string
         }
@@ -132,57 +222,432 @@ export type Database = {
           duration_seconds?: number | null
           file_name?: string
           file_size?: number | null
-          file_url?: string | null
           id?: string
           interview_date?: string | null
           position_title?: string | null
+          processing_error?: string | null
+          processing_stage?: string | null
+          processing_stage_at?: string | null
           retention_until?: string | null
+          speaker_labels?: Json
           status?: string | null
+          storage_path?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      position_templates: {
+        Row: {
+          created_at: string
+          id: string
+          position_key: string
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position_key: string
+          template_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position_key?: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_templates_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          interview_id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          stage: string
+          stage_history: Json
+          started_at: string | null
+          status: string
+          summary_id: string | null
+          template_id: string | null
+          transcript_text: string | null
+          transcription_progress: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          interview_id: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          stage?: string
+          stage_history?: Json
+          started_at?: string | null
+          status?: string
+          summary_id?: string | null
+          template_id?: string | null
+          transcript_text?: string | null
+          transcription_progress?: Json | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          interview_id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          stage?: string
+          stage_history?: Json
+          started_at?: string | null
+          status?: string
+          summary_id?: string | null
+          template_id?: string | null
+          transcript_text?: string | null
+          transcription_progress?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "interview_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_link_access_log: {
+        Row: {
+          accessed_at: string
+          id: string
+          ip_address: string | null
+          share_link_id: string
+          user_agent: string | null
+          viewer_id: string | null
+        }
+        Insert: {
+          accessed_at?: string
+          id?: string
+          ip_address?: string | null
+          share_link_id: string
+          user_agent?: string | null
+          viewer_id?: string | null
+        }
+        Update: {
+          accessed_at?: string
+          id?: string
+          ip_address?: string | null
+          share_link_id?: string
+          user_agent?: string | null
+          viewer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_access_log_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          access_token: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          interview_id: string
+          permissions: string[] | null
+          revoked_at: string | null
+        }
+        Insert: {
+          access_token?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          interview_id: string
+          permissions?: string[] | null
+          revoked_at?: string | null
+        }
+        Update: {
+          access_token?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          interview_id?: string
+          permissions?: string[] | null
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_template_versions: {
+        Row: {
+          category: string | null
+          changed_by: string | null
+          changed_by_name: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          restored_from_version: number | null
+          template_content: Json | null
+          template_id: string
+          version: number
+        }
+        Insert: {
+          category?: string | null
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          restored_from_version?: number | null
+          template_content?: Json | null
+          template_id: string
+          version: number
+        }
+        Update: {
+          category?: string | null
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          restored_from_version?: number | null
+          template_content?: Json | null
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       summary_templates: {
         Row: {
           category: string | null
           created_at: string
           description: string | null
+          forked_from_id: string | null
           id: string
           is_public: boolean | null
           name: string
           template_content: Json | null
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
           category?: string | null
           created_at?: string
           description?: string | null
+          forked_from_id?: string | null
           id?: string
           is_public?: boolean | null
           name: string
           template_content?: Json | null
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
           category?: string | null
           created_at?: string
           description?: string | null
+          forked_from_id?: string | null
           id?: string
           is_public?: boolean | null
           name?: string
           template_content?: Json | null
           updated_at?: string
           user_id?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "summary_templates_forked_from_id_fkey"
+            columns: ["forked_from_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      template_ratings: {
+        Row: {
+          created_at: string
+          rating: number
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          rating: number
+          template_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          rating?: number
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_ratings_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      template_stars: {
+        Row: {
+          created_at: string
+          template_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          template_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          template_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_stars_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcript_segments: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          end_seconds: number
+          id: string
+          interview_id: string
+          segment_index: number
+          speaker: string | null
+          start_seconds: number
+          text: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          end_seconds: number
+          id?: string
+          interview_id: string
+          segment_index: number
+          speaker?: string | null
+          start_seconds: number
+          text: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          end_seconds?: number
+          id?: string
+          interview_id?: string
+          segment_index?: number
+          speaker?: string | null
+          start_seconds?: number
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_segments_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_profiles: {
         Row: {
+          ai_model: string | null
+          ai_provider: string | null
           company: string | null
           created_at: string
+          default_template_id: string | null
           email: string | null
           full_name: string | null
           id: string
@@ -191,8 +656,11 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
           company?: string | null
           created_at?: string
+          default_template_id?: string | null
           email?: string | null
           full_name?: string | null
           id?: string
@@ -201,8 +669,11 @@ export type Database = {
           user_id: string
         }
         Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
           company?: string | null
           created_at?: string
+          default_template_id?: string | null
           email?: string | null
           full_name?: string | null
           id?: string
@@ -210,14 +681,98 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_default_template_id_fkey"
+            columns: ["default_template_id"]
+            isOneToOne: false
+            referencedRelation: "summary_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_interview_invitation: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      add_shared_interview_comment: {
+        Args: { p_token: string; p_comment_text: string; p_section_key?: string }
+        Returns: string
+      }
+      claim_processing_job: {
+        Args: { p_worker_id: string; p_lock_timeout_seconds?: number }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          interview_id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          stage: string
+          stage_history: Json
+          started_at: string | null
+          status: string
+          summary_id: string | null
+          template_id: string | null
+          transcript_text: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_shared_interview: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      get_template_gallery: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          author_name: string
+          average_rating: number | null
+          category: string | null
+          description: string | null
+          fork_count: number
+          id: string
+          is_starred: boolean
+          my_rating: number | null
+          name: string
+          rating_count: number
+          star_count: number
+          template_content: Json | null
+          updated_at: string
+          usage_count: number
+          user_id: string
+          version: number
+        }[]
+      }
+      restore_template_version: {
+        Args: { p_version_id: string }
+        Returns: {
+          category: string | null
+          created_at: string
+          description: string | null
+          forked_from_id: string | null
+          id: string
+          is_public: boolean | null
+          name: string
+          template_content: Json | null
+          updated_at: string
+          user_id: string
+          version: number
+        }
+      }
+      update_shared_transcript: {
+        Args: { p_token: string; p_summary_id: string; p_transcript_text: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,54 @@
+// AI providers the edge functions can analyse interviews with. Mirrors the
+// adapters in supabase/functions/_shared/llm; credentials live in the function
+// secrets, so a provider only works once the deployment has configured it.
+
+export type AiProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  description: string;
+  // Suggested models; providers addressed by deployment or local name accept any value
+  models: string[];
+  modelLabel: string;
+}
+
+export const AI_PROVIDERS: AiProvider[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'OpenAI API',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini'],
+    modelLabel: 'Model',
+  },
+  {
+    id: 'azure-openai',
+    label: 'Azure OpenAI',
+    description: "Your organisation's Azure OpenAI resource",
+    models: [],
+    modelLabel: 'Deployment name',
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    description: 'Anthropic Claude API',
+    models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+    modelLabel: 'Model',
+  },
+  {
+    id: 'openai-compatible',
+    label: 'Self-hosted (OpenAI-compatible)',
+    description: 'A local or private endpoint such as vLLM or Ollama',
+    models: [],
+    modelLabel: 'Model name',
+  },
+];
+
+export const DEFAULT_AI_MODEL = 'gpt-4o-mini';
+
+// The legacy bring-your-own-key page calls OpenAI directly from the browser.
+// It asks for JSON mode, which classic gpt-4 rejects.
+export const BROWSER_ANALYSIS_MODEL = 'gpt-4o';
+
+export const getAiProvider = (id: string | null | undefined) =>
+  AI_PROVIDERS.find((provider) => provider.id === id) ?? null;
@@ -0,0 +1,72 @@
+import { metadataFromFilename } from '@/lib/interview-metadata';
+import { missingDetails, uploadInterview } from '@/lib/interview-upload';
+
+// Files uploaded at the same time; the rest wait their turn
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+export type BatchItemStatus = 'ready' | 'uploading' | 'uploaded' | 'failed';
+
+// One file of a batch with the details its interview will be created with
+export interface BatchItem {
+  key: string;
+  file: File;
+  candidateName: string;
+  positionTitle: string;
+  // yyyy-mm-dd, or empty
+  interviewDate: string;
+  status: BatchItemStatus;
+  progress: number;
+  error: string | null;
+  // Set once the interview is created; a retry after a failure reuses it
+  interviewId: string | null;
+}
+
+export const createBatchItem = (file: File): BatchItem => {
+  const guessed = metadataFromFilename(file.name);
+  return {
+    key: crypto.randomUUID(),
+    file,
+    candidateName: guessed.candidateName ?? '',
+    positionTitle: guessed.positionTitle ?? '',
+    interviewDate: guessed.interviewDate ?? '',
+    status: 'ready',
+    progress: 0,
+    error: null,
+    interviewId: null,
+  };
+};
+
+export const isBatchItemComplete = (item: BatchItem) => !missingDetails(item);
+
+// Runs worker over items with at most `limit` running at once, in order
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+};
+
+interface UploadBatchItemParams {
+  userId: string;
+  item: BatchItem;
+  templateId: string | null;
+  onInterviewCreated: (interviewId: string) => void;
+  onProgress: (percent: number) => void;
+}
+
+// Uploads one file of the batch and returns its interview's id
+export const uploadBatchItem = async ({ userId, item, templateId, onInterviewCreated, onProgress }: UploadBatchItemParams) => {
+  const { interviewId } = await uploadInterview({
+    userId,
+    file: item.file,
+    details: item,
+    templateId,
+    retryInterviewId: item.interviewId,
+    onInterviewCreated,
+    onProgress: (bytesUploaded, bytesTotal) => onProgress(Math.round((bytesUploaded / bytesTotal) * 100)),
+  });
+  return interviewId;
+};
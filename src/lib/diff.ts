@@ -0,0 +1,62 @@
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffPart<T> {
+  op: DiffOp;
+  items: T[];
+}
+
+// Beyond this many comparisons the texts are shown as replaced wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff of two sequences, with consecutive items of
+// the same kind grouped into one part
+export function diffSequences<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean = Object.is): DiffPart<T>[] {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before.length ? [{ op: 'removed' as const, items: before }] : []),
+      ...(after.length ? [{ op: 'added' as const, items: after }] : []),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart<T>[] = [];
+  const push = (op: DiffOp, item: T) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.items.push(item);
+    else parts.push({ op, items: [item] });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (equals(before[i], after[j])) {
+      push('equal', after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) push('removed', before[i++]);
+  while (j < after.length) push('added', after[j++]);
+
+  return parts;
+}
+
+// Word-level diff that keeps whitespace attached, so joining a part's items
+// reproduces the original text
+export function diffWords(before: string, after: string): DiffPart<string>[] {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+  return diffSequences(tokenize(before), tokenize(after));
+}
@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AUDIO_BUCKET } from '@/lib/resumable-upload';
+
+// The audio bucket is private. Recordings are reached through signed URLs that
+// are requested when needed and expire soon, so a copied link stops working.
+const PLAYBACK_URL_TTL_SECONDS = 15 * 60;
+// Only has to last until the browser starts the download
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+
+const signedUrl = async (storagePath: string, expiresIn: number, download?: string) => {
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .createSignedUrl(storagePath, expiresIn, download ? { download } : undefined);
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Could not access the recording');
+  }
+  return data.signedUrl;
+};
+
+// A URL the audio element can stream from; ask for a new one once it expires
+export const playbackUrl = (storagePath: string) => signedUrl(storagePath, PLAYBACK_URL_TTL_SECONDS);
+
+// Saves the interview's file under its original name
+export const downloadInterviewFile = async (storagePath: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = await signedUrl(storagePath, DOWNLOAD_URL_TTL_SECONDS, fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const removeInterviewFile = async (storagePath: string) => {
+  const { error } = await supabase.storage.from(AUDIO_BUCKET).remove([storagePath]);
+  if (error) throw new Error(error.message);
+};
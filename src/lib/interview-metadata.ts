@@ -0,0 +1,21 @@
+// Details guessed from an upload's file name, e.g. "Jane Smith - Engineer 2025-08-14.mp3"
+export interface FilenameMetadata {
+  candidateName?: string;
+  positionTitle?: string;
+  // yyyy-mm-dd
+  interviewDate?: string;
+}
+
+export const metadataFromFilename = (filename: string): FilenameMetadata => {
+  // Treat separators in names like "jane_smith-engineer.m4a" as spaces
+  const text = filename.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ');
+  const nameMatch = text.match(/([A-Z][a-z]+ [A-Z][a-z]+)/);
+  const positionMatch = text.match(/(Engineer|Manager|Director|Analyst|Specialist|Coordinator)/i);
+  const dateMatch = filename.match(/(20\d{2})[-_.]?(0[1-9]|1[0-2])[-_.]?(0[1-9]|[12]\d|3[01])/);
+
+  return {
+    candidateName: nameMatch?.[1],
+    positionTitle: positionMatch?.[1],
+    interviewDate: dateMatch ? `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}` : undefined,
+  };
+};
@@ -0,0 +1,212 @@
+import { supabase } from '@/integrations/supabase/client';
+import { enqueueProcessingJob, type ProcessingJob } from '@/lib/processing-jobs';
+import { setInterviewStage } from '@/lib/processing-stage';
+import { startResumableUpload, type UploadHandle } from '@/lib/resumable-upload';
+import { importTranscriptFile, isTranscriptFile } from '@/lib/transcript';
+import { TRANSCRIPT_FILE_EXTENSIONS } from '@/lib/transcript-parsers';
+
+// The one set of rules every upload screen applies. An interview moves
+// uploading -> uploaded (status 'processing') once its job is queued, or to
+// failed; the edge functions take it from there.
+
+export const MAX_UPLOAD_SIZE_MB = 100;
+const MAX_UPLOAD_SIZE = MAX_UPLOAD_SIZE_MB * 1024 * 1024;
+// How long an uploaded recording is kept unless the user says otherwise
+const RETENTION_DAYS = 365;
+
+export const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'mp4', 'aac', 'ogg', 'webm', 'flac'];
+// Recordings over the transcription provider's limit are transcribed in
+// segments, and only these formats can be cut up (see planSegments in
+// supabase/functions/_shared/audio-segments.ts)
+export const SEGMENTABLE_EXTENSIONS = ['mp3', 'aac', 'wav'];
+export const MAX_UNSEGMENTED_SIZE_MB = 24;
+const MAX_UNSEGMENTED_SIZE = MAX_UNSEGMENTED_SIZE_MB * 1024 * 1024;
+export const ACCEPTED_EXTENSIONS = [...TRANSCRIPT_FILE_EXTENSIONS, ...AUDIO_EXTENSIONS];
+
+// Value for a file input's `accept` attribute
+export const acceptAttribute = (extensions: string[] = ACCEPTED_EXTENSIONS) =>
+  extensions.map((extension) => `.${extension}`).join(',');
+
+// Why a file cannot be uploaded, or null when it can
+export const uploadFileProblem = (file: File, extensions: string[] = ACCEPTED_EXTENSIONS): string | null => {
+  // Judged by extension: MIME types vary by browser, and processing picks the
+  // transcript or audio path by extension too
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  if (!extensions.includes(extension)) {
+    return `Unsupported file type. Please upload ${extensions.map((ext) => `.${ext}`).join(', ')}`;
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return `File too large. Maximum size is ${MAX_UPLOAD_SIZE_MB}MB`;
+  }
+  if (AUDIO_EXTENSIONS.includes(extension) && !SEGMENTABLE_EXTENSIONS.includes(extension) && file.size > MAX_UNSEGMENTED_SIZE) {
+    return `.${extension} recordings can be at most ${MAX_UNSEGMENTED_SIZE_MB}MB. Convert longer recordings to MP3 or WAV, which can be up to ${MAX_UPLOAD_SIZE_MB}MB`;
+  }
+  return null;
+};
+
+export interface InterviewDetails {
+  candidateName: string;
+  positionTitle: string;
+  // yyyy-mm-dd, or empty
+  interviewDate?: string;
+  consentObtained?: boolean;
+}
+
+// Candidate and position are what the interview list and reports key on
+export const missingDetails = (details: InterviewDetails) =>
+  details.candidateName.trim() === '' || details.positionTitle.trim() === '';
+
+// Objects live under the user's folder, which the bucket policies require
+export const interviewObjectName = (userId: string, interviewId: string, fileName: string) =>
+  `${userId}/${interviewId}-${fileName}`;
+
+// Creates the interview record, in the uploading stage, for a file about to be uploaded
+export const createInterview = async (userId: string, file: File, details: InterviewDetails) => {
+  const retentionUntil = new Date(Date.now() + RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: interview, error } = await supabase
+    .from('interviews')
+    .insert({
+      user_id: userId,
+      file_name: file.name,
+      file_size: file.size,
+      candidate_name: details.candidateName.trim(),
+      position_title: details.positionTitle.trim(),
+      interview_date: details.interviewDate || null,
+      consent_obtained: details.consentObtained ?? false,
+      retention_until: retentionUntil.toISOString().split('T')[0],
+      status: 'uploading',
+      processing_stage: 'uploading',
+      processing_stage_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !interview) {
+    throw new Error(error?.message || 'Failed to create interview record');
+  }
+  return interview.id;
+};
+
+// An interview created earlier whose file never finished uploading, or null
+export const findUnfinishedInterview = async (interviewId: string) => {
+  const { data } = await supabase
+    .from('interviews')
+    .select('id')
+    .eq('id', interviewId)
+    .eq('processing_stage', 'uploading')
+    .maybeSingle();
+  return data?.id ?? null;
+};
+
+// Puts an interview whose upload failed back in the uploading stage for another
+// attempt, with the details as they are now; null if it is no longer failed
+const reopenFailedUpload = async (interviewId: string, file: File, details: InterviewDetails) => {
+  const { data } = await supabase
+    .from('interviews')
+    .update({
+      file_name: file.name,
+      file_size: file.size,
+      candidate_name: details.candidateName.trim(),
+      position_title: details.positionTitle.trim(),
+      interview_date: details.interviewDate || null,
+      status: 'uploading',
+      processing_stage: 'uploading',
+      processing_error: null,
+      processing_stage_at: new Date().toISOString(),
+    })
+    .eq('id', interviewId)
+    .eq('processing_stage', 'failed')
+    .select('id, storage_path')
+    .maybeSingle();
+  return data;
+};
+
+// Records where the uploaded file was stored; URLs are signed from this when needed
+export const attachInterviewFile = async (interviewId: string, objectName: string) => {
+  const { error } = await supabase
+    .from('interviews')
+    .update({ storage_path: objectName })
+    .eq('id', interviewId);
+
+  if (error) throw new Error(error.message);
+};
+
+// Queues an uploaded file for processing. Transcripts skip straight to
+// analysis; audio is transcribed by the worker from the stored copy.
+export const queueInterviewProcessing = async (
+  interviewId: string,
+  userId: string,
+  file: File,
+  templateId: string | null,
+): Promise<ProcessingJob> =>
+  enqueueProcessingJob({
+    interviewId,
+    userId,
+    templateId,
+    transcript: isTranscriptFile(file.name) ? await importTranscriptFile(interviewId, file) : undefined,
+  });
+
+// Marks the interview failed without hiding the error that caused it
+export const failInterview = async (interviewId: string, error: unknown) => {
+  const message = error instanceof Error ? error.message : 'Upload failed';
+  await setInterviewStage(interviewId, 'failed', message).catch(() => undefined);
+};
+
+interface UploadInterviewParams {
+  userId: string;
+  file: File;
+  details: InterviewDetails;
+  templateId: string | null;
+  // The interview left failed by an earlier attempt at this file, reused rather than duplicated
+  retryInterviewId?: string | null;
+  // Called once the interview exists, so the caller can retry against it
+  onInterviewCreated?: (interviewId: string) => void;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  // Lets the caller pause and resume the transfer
+  onUploadStarted?: (handle: UploadHandle) => void;
+}
+
+export interface UploadedInterview {
+  interviewId: string;
+  job: ProcessingJob;
+}
+
+// Creates the interview (or reopens the one a failed attempt left behind),
+// uploads its file and queues it for processing. When anything after the
+// record exists fails, the interview is marked failed and the error is rethrown.
+export const uploadInterview = async ({
+  userId,
+  file,
+  details,
+  templateId,
+  retryInterviewId,
+  onInterviewCreated,
+  onProgress,
+  onUploadStarted,
+}: UploadInterviewParams): Promise<UploadedInterview> => {
+  const problem = uploadFileProblem(file);
+  if (problem) throw new Error(problem);
+  if (missingDetails(details)) throw new Error('Candidate name and position are required');
+
+  const reopened = retryInterviewId ? await reopenFailedUpload(retryInterviewId, file, details) : null;
+  const interviewId = reopened?.id ?? await createInterview(userId, file, details);
+  onInterviewCreated?.(interviewId);
+
+  try {
+    const objectName = interviewObjectName(userId, interviewId, file.name);
+    // The failed attempt may have stored this file before queueing it failed
+    if (reopened?.storage_path !== objectName) {
+      const upload = await startResumableUpload(file, objectName, onProgress ?? (() => undefined));
+      onUploadStarted?.(upload);
+      await upload.done;
+
+      await attachInterviewFile(interviewId, objectName);
+    }
+    const job = await queueInterviewProcessing(interviewId, userId, file, templateId);
+    return { interviewId, job };
+  } catch (error: unknown) {
+    await failInterview(interviewId, error);
+    throw error;
+  }
+};
@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { setInterviewStage } from '@/lib/processing-stage';
+
+export type ProcessingJob = Tables<'processing_jobs'>;
+
+interface EnqueueProcessingJobParams {
+  interviewId: string;
+  userId: string;
+  templateId?: string | null;
+  // Text uploads already have a transcript and skip straight to analysis
+  transcript?: string;
+}
+
+export const isJobFinished = (job: Pick<ProcessingJob, 'status'> | null) =>
+  job?.status === 'completed' || job?.status === 'failed';
+
+// Wakes the process-jobs worker. The worker responds before doing any work, so
+// this never blocks on transcription or analysis.
+export const startProcessingWorker = async () => {
+  const { error } = await supabase.functions.invoke('process-jobs');
+  if (error) {
+    console.error('Failed to start processing worker:', error);
+  }
+};
+
+export const enqueueProcessingJob = async ({
+  interviewId,
+  userId,
+  templateId = null,
+  transcript,
+}: EnqueueProcessingJobParams): Promise<ProcessingJob> => {
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .insert({
+      interview_id: interviewId,
+      user_id: userId,
+      template_id: templateId,
+      stage: transcript === undefined ? 'transcription' : 'analysis',
+      transcript_text: transcript ?? null,
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    throw new Error(error?.message || 'Failed to queue interview for processing');
+  }
+
+  await setInterviewStage(interviewId, 'uploaded');
+
+  await startProcessingWorker();
+  return job;
+};
+
+// Coarse progress for a job based on the stage the worker has reached
+export const jobProgress = (job: Pick<ProcessingJob, 'stage' | 'status'> | null) => {
+  if (!job) return 0;
+  if (job.status === 'completed') return 100;
+  if (job.stage === 'transcription') return job.status === 'running' ? 25 : 10;
+  return job.status === 'running' ? 75 : 50;
+};
@@ -0,0 +1,35 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/processing-stage.ts. The app records the
+// upload itself; the edge functions record everything after it.
+export type ProcessingStage = 'uploading' | 'uploaded' | 'transcribing' | 'analyzing' | 'saving' | 'completed' | 'failed';
+
+export type InterviewProgress = Pick<
+  Tables<'interviews'>,
+  'id' | 'status' | 'processing_stage' | 'processing_error' | 'processing_stage_at' | 'file_name'
+>;
+
+// The stages an interview passes through in order; 'failed' can follow any of them
+export const PIPELINE_STAGES: ProcessingStage[] = ['uploading', 'uploaded', 'transcribing', 'analyzing', 'saving', 'completed'];
+
+export const isStageFinished = (stage: string | null) => stage === 'completed' || stage === 'failed';
+
+// Stages set from the browser: during the upload, and when it fails before a job was queued
+export const setInterviewStage = async (
+  interviewId: string,
+  stage: Extract<ProcessingStage, 'uploading' | 'uploaded' | 'failed'>,
+  error: string | null = null,
+) => {
+  const { error: updateError } = await supabase
+    .from('interviews')
+    .update({
+      status: stage === 'uploaded' ? 'processing' : stage,
+      processing_stage: stage,
+      processing_error: error,
+      processing_stage_at: new Date().toISOString(),
+    })
+    .eq('id', interviewId);
+
+  if (updateError) throw updateError;
+};
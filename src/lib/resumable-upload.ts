@@ -0,0 +1,125 @@
+import { Upload } from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+
+export const AUDIO_BUCKET = 'interview-audio';
+
+// Supabase's resumable (tus) endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Waits between retries of a failed chunk; tus does not retry 4xx responses
+const RETRY_DELAYS_MS = [0, 1000, 3000, 5000, 10000, 20000];
+const PENDING_UPLOADS_KEY = 'recruiterlab.pending-uploads';
+
+// An upload that was still running when the page went away. tus remembers how
+// far it got; this remembers which interview it was for, so the user can pick
+// the same file again and carry on where it stopped.
+export interface PendingUpload {
+  userId: string;
+  interviewId: string;
+  objectName: string;
+  fileName: string;
+  fileSize: number;
+  candidateName: string;
+  positionTitle: string;
+  templateId: string | null;
+}
+
+export interface UploadHandle {
+  // Resolves once every byte is stored; rejects when the retries run out
+  done: Promise<void>;
+  pause: () => void;
+  resume: () => void;
+}
+
+const readPendingUploads = (): PendingUpload[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writePendingUploads = (uploads: PendingUpload[]) => {
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+};
+
+export const loadPendingUploads = (userId: string) =>
+  readPendingUploads().filter((upload) => upload.userId === userId);
+
+export const savePendingUpload = (upload: PendingUpload) => {
+  writePendingUploads([...readPendingUploads().filter((p) => p.interviewId !== upload.interviewId), upload]);
+};
+
+export const removePendingUpload = (interviewId: string) => {
+  writePendingUploads(readPendingUploads().filter((upload) => upload.interviewId !== interviewId));
+};
+
+// The browser cannot reopen a file by itself, so the user picks it again
+export const isSameFile = (upload: PendingUpload, file: File) =>
+  upload.fileName === file.name && upload.fileSize === file.size;
+
+// The client does not expose its URL; recover it from a URL it builds
+const storageEndpoint = () => {
+  const { data } = supabase.storage.from(AUDIO_BUCKET).getPublicUrl('');
+  return `${new URL(data.publicUrl).origin}/storage/v1/upload/resumable`;
+};
+
+const accessToken = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('No active session. Please sign in again.');
+  return session.access_token;
+};
+
+// Uploads a file to the audio bucket in chunks, reporting real byte progress.
+// An earlier, interrupted upload of the same file to the same object is resumed
+// from the last stored chunk instead of starting over.
+export const startResumableUpload = async (
+  file: File,
+  objectName: string,
+  onProgress: (bytesUploaded: number, bytesTotal: number) => void,
+): Promise<UploadHandle> => {
+  const token = await accessToken();
+
+  let settle!: { resolve: () => void; reject: (error: Error) => void };
+  const done = new Promise<void>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const upload = new Upload(file, {
+    endpoint: storageEndpoint(),
+    retryDelays: RETRY_DELAYS_MS,
+    chunkSize: CHUNK_SIZE,
+    headers: { authorization: `Bearer ${token}` },
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: AUDIO_BUCKET,
+      objectName,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600',
+    },
+    // Access tokens expire after an hour, which a long or resumed upload can outlast
+    onBeforeRequest: async (req) => {
+      req.setHeader('authorization', `Bearer ${await accessToken()}`);
+    },
+    onProgress,
+    onSuccess: () => settle.resolve(),
+    onError: (error) => settle.reject(error),
+  });
+
+  const previous = (await upload.findPreviousUploads())
+    .find((candidate) => candidate.metadata.objectName === objectName);
+  if (previous) {
+    upload.resumeFromPreviousUpload(previous);
+  }
+
+  upload.start();
+
+  return {
+    done,
+    // Aborting without terminating keeps the upload on the server, ready to resume
+    pause: () => {
+      upload.abort();
+    },
+    resume: () => upload.start(),
+  };
+};
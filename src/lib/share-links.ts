@@ -0,0 +1,175 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { functionErrorBody } from '@/lib/summaries';
+
+// Scopes are cumulative: each level grants everything before it
+export const SHARE_SCOPES = ['view', 'comment', 'edit'] as const;
+export type ShareScope = typeof SHARE_SCOPES[number];
+
+export const SHARE_SCOPE_LABELS: Record<ShareScope, string> = {
+  view: 'View only',
+  comment: 'View & comment',
+  edit: 'View, comment & edit transcript',
+};
+
+export type ShareLink = Tables<'share_links'> & {
+  access_count: { count: number }[];
+  // Set for links sent by email invitation, which only the invitee can open
+  invitation: { email: string; accepted_at: string | null } | null;
+};
+
+export type ShareLinkAccess = Tables<'share_link_access_log'>;
+
+// ['view', 'comment'] for 'comment'
+export const permissionsFor = (scope: ShareScope) => SHARE_SCOPES.slice(0, SHARE_SCOPES.indexOf(scope) + 1);
+
+// The widest scope a link grants
+export const scopeOf = (permissions: string[] | null): ShareScope =>
+  [...SHARE_SCOPES].reverse().find((scope) => permissions?.includes(scope)) ?? 'view';
+
+export const shareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+export const isLinkActive = (link: Tables<'share_links'>) =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+
+// Links for the interview, newest first, with how often each was opened
+export const loadShareLinks = async (interviewId: string): Promise<ShareLink[]> => {
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('*, access_count:share_link_access_log(count), invitation:interview_invitations(email, accepted_at)')
+    .eq('interview_id', interviewId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// Creates a link; the database generates its random token. null never expires.
+export const createShareLink = async (interviewId: string, userId: string, scope: ShareScope, expiresInDays: number | null) => {
+  const { data, error } = await supabase
+    .from('share_links')
+    .insert({
+      interview_id: interviewId,
+      created_by: userId,
+      permissions: permissionsFor(scope),
+      expires_at: expiresInDays === null
+        ? null
+        : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Revoked links stop working at once but keep their access log
+export const revokeShareLink = async (linkId: string) => {
+  const { error } = await supabase
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) throw error;
+};
+
+export const loadShareLinkAccess = async (linkId: string): Promise<ShareLinkAccess[]> => {
+  const { data, error } = await supabase
+    .from('share_link_access_log')
+    .select('*')
+    .eq('share_link_id', linkId)
+    .order('accessed_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return data;
+};
+
+export interface SharedComment {
+  id: string;
+  comment_text: string;
+  section_key: string | null;
+  created_at: string;
+  author_name: string;
+}
+
+// What get_shared_interview returns for a live link
+export interface SharedInterview {
+  permissions: ShareScope[];
+  expires_at: string | null;
+  interview: {
+    candidate_name: string | null;
+    position_title: string | null;
+    interview_date: string | null;
+    file_name: string;
+  };
+  summary: {
+    id: string;
+    version: number;
+    created_at: string;
+    summary_content: Record<string, unknown> | null;
+    template_sections: Json | null;
+    // Only for edit links
+    transcript_text: string | null;
+  } | null;
+  // Only for comment and edit links
+  comments: SharedComment[] | null;
+}
+
+// Opens a share link; works without signing in and is recorded in the link's access log
+export const loadSharedInterview = async (token: string): Promise<SharedInterview> => {
+  const { data, error } = await supabase.rpc('get_shared_interview', { p_token: token });
+
+  if (error) throw error;
+  return data as unknown as SharedInterview;
+};
+
+// Returns the new comment's id
+export const addSharedComment = async (token: string, commentText: string, sectionKey: string | null) => {
+  const { data, error } = await supabase.rpc('add_shared_interview_comment', {
+    p_token: token,
+    p_comment_text: commentText,
+    ...(sectionKey ? { p_section_key: sectionKey } : {}),
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateSharedTranscript = async (token: string, summaryId: string, transcriptText: string) => {
+  const { error } = await supabase.rpc('update_shared_transcript', {
+    p_token: token,
+    p_summary_id: summaryId,
+    p_transcript_text: transcriptText,
+  });
+
+  if (error) throw error;
+};
+
+export interface InvitationOptions {
+  interviewId: string;
+  email: string;
+  message: string;
+  scope: ShareScope;
+  // null never expires
+  expiresInDays: number | null;
+}
+
+// Emails an invitation through send-invite. The invitee opens it at /invite/:token,
+// signs in with the invited address and gets a share link only they can use.
+export const sendInvitation = async (options: InvitationOptions) => {
+  const { error } = await supabase.functions.invoke('send-invite', { body: options });
+
+  if (error) {
+    const body = await functionErrorBody(error);
+    throw new Error(body?.error || error.message);
+  }
+};
+
+// Accepts an invitation for the signed-in user and returns the share link token it grants
+export const acceptInvitation = async (token: string) => {
+  const { data, error } = await supabase.rpc('accept_interview_invitation', { p_token: token });
+
+  if (error) throw error;
+  return data;
+};
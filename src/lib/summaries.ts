@@ -0,0 +1,141 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { TemplateSection } from '@/lib/summary-schema';
+
+// One analysis of an interview; every run is kept as a numbered version
+export type SummaryVersion = Tables<'interview_summaries'> & {
+  template: { name: string } | null;
+  // The exact template version used; null for the built-in analysis and older analyses
+  template_version: { version: number } | null;
+};
+
+// All analyses of the interview, newest first
+export const loadSummaryVersions = async (interviewId: string): Promise<SummaryVersion[]> => {
+  const { data, error } = await supabase
+    .from('interview_summaries')
+    .select('*, template:summary_templates(name), template_version:summary_template_versions(version)')
+    .eq('interview_id', interviewId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// "v3 · Engineering screen (template v2) · openai/gpt-4o"
+const templateLabel = (version: SummaryVersion) => {
+  if (!version.template) return 'Hiring sync';
+  return version.template_version
+    ? `${version.template.name} (template v${version.template_version.version})`
+    : version.template.name;
+};
+
+export const versionLabel = (version: SummaryVersion) =>
+  [`v${version.version}`, templateLabel(version), version.ai_model_used]
+    .filter(Boolean)
+    .join(' · ');
+
+export interface RegenerateOptions {
+  interviewId: string;
+  transcript: string;
+  templateId: string | null;
+  // Workspace settings apply when left out
+  provider?: string | null;
+  model?: string | null;
+  // Analyse the transcript text as given rather than the speaker-labelled segments
+  useTranscriptText?: boolean;
+}
+
+export class RegenerateError extends Error {
+  constructor(message: string, public summaryId: string | null) {
+    super(message);
+    this.name = 'RegenerateError';
+  }
+}
+
+// Edge functions answer errors with JSON ({ error, ... }); process-interview adds summaryId or rawResponse
+export const functionErrorBody = async (error: Error) =>
+  error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+
+// Runs a new analysis through process-interview and returns the new version's id.
+// A failed analysis is still stored as a version, so the error carries its id too.
+export const regenerateSummary = async (options: RegenerateOptions): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('process-interview', { body: options });
+
+  if (error) {
+    const body = await functionErrorBody(error);
+    throw new RegenerateError(body?.error || error.message, body?.summaryId ?? null);
+  }
+
+  return data.summaryId;
+};
+
+// A transcript from one of the user's interviews, to try templates against
+export interface SampleTranscript {
+  interviewId: string;
+  label: string;
+  transcript: string;
+}
+
+// The latest transcript of each of the user's recently analysed interviews
+export const loadSampleTranscripts = async (): Promise<SampleTranscript[]> => {
+  const { data, error } = await supabase
+    .from('interview_summaries')
+    .select('interview_id, transcript_text, interview:interviews(candidate_name, position_title, file_name)')
+    .not('transcript_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+
+  const samples = new Map<string, SampleTranscript>();
+  for (const row of data) {
+    if (samples.has(row.interview_id) || !row.transcript_text) continue;
+    samples.set(row.interview_id, {
+      interviewId: row.interview_id,
+      label: [row.interview?.candidate_name, row.interview?.position_title].filter(Boolean).join(' · ')
+        || row.interview?.file_name
+        || 'Untitled interview',
+      transcript: row.transcript_text,
+    });
+  }
+  return [...samples.values()];
+};
+
+export interface TestRunOptions {
+  transcript: string;
+  // The draft template's content, saved or not
+  templateContent: { sections: TemplateSection[] };
+  // Set when testing against an uploaded interview, to use its speaker labels
+  interviewId?: string | null;
+}
+
+export interface TestRunResult {
+  summary: Record<string, unknown>;
+  sections: TemplateSection[];
+  model: string;
+  processingTimeSeconds: number;
+}
+
+export class TestRunError extends Error {
+  constructor(message: string, public rawResponse: string | null) {
+    super(message);
+    this.name = 'TestRunError';
+  }
+}
+
+// Analyses a transcript with a draft template without storing anything
+export const testRunTemplate = async (options: TestRunOptions): Promise<TestRunResult> => {
+  const { data, error } = await supabase.functions.invoke('process-interview', {
+    body: { ...options, dryRun: true },
+  });
+
+  if (error) {
+    const body = await functionErrorBody(error);
+    throw new TestRunError(body?.error || error.message, body?.rawResponse ?? null);
+  }
+
+  return data;
+};
@@ -0,0 +1,42 @@
+import { RATING_SCALE, type TemplateSection } from '@/lib/summary-schema';
+
+export interface Rating {
+  score: number;
+  rationale?: string;
+}
+
+// Optional sections the interview did not cover are stored as null
+export const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const asRating = (value: unknown): Rating | null =>
+  value && typeof value === 'object' && typeof (value as Rating).score === 'number' ? value as Rating : null;
+
+export const asRows = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((row) => row && typeof row === 'object') : [];
+
+export const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Plain-text version of a section, for the clipboard and the downloaded report.
+// Tables are tab-separated so they paste into a spreadsheet.
+export const sectionText = (section: TemplateSection, value: unknown): string => {
+  if (isEmptyValue(value)) return 'Not covered in this interview.';
+
+  const rating = section.type === 'rating' ? asRating(value) : null;
+  if (rating) {
+    return [`${rating.score}/${RATING_SCALE}`, rating.rationale].filter(Boolean).join(' - ');
+  }
+
+  if (section.type === 'table' && Array.isArray(value)) {
+    const columns = section.columns ?? Object.keys(asRows(value)[0] ?? {});
+    return [columns, ...asRows(value).map((row) => columns.map((column) => cellText(row[column])))]
+      .map((cells) => cells.join('\t'))
+      .join('\n');
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => `${index + 1}. ${cellText(item)}`).join('\n');
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+
+// Templates (summary_templates.template_content.sections) declare the sections
+// an analysis contains; interview_summaries.template_sections keeps the sections
+// each analysis was produced for.
+// Mirrors supabase/functions/_shared/summary-schema.ts; keep the two in step.
+
+export const SECTION_TYPES = ['text', 'bullet_list', 'rating', 'table'] as const;
+export type SectionType = typeof SECTION_TYPES[number];
+
+export const SECTION_TYPE_LABELS: Record<SectionType, string> = {
+  text: 'Text',
+  bullet_list: 'Bullet list',
+  rating: 'Rating',
+  table: 'Table',
+};
+
+// Ratings are whole numbers from 1 to RATING_SCALE
+export const RATING_SCALE = 5;
+
+export const templateSectionSchema = z.object({
+  key: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'must start with a letter and contain only letters, digits and underscores'),
+  title: z.string().min(1),
+  type: z.enum(SECTION_TYPES).default('text'),
+  required: z.boolean().default(true),
+  // Extra guidance for the model about what belongs in this section
+  instructions: z.string().optional(),
+  // Words for text and ratings' rationale, items for bullet lists, rows for tables
+  maxLength: z.number().int().positive().optional(),
+  columns: z.array(z.string().min(1)).optional(),
+}).refine((section) => section.type !== 'table' || (section.columns?.length ?? 0) > 0, {
+  message: 'table sections need at least one column',
+  path: ['columns'],
+});
+
+export type TemplateSection = z.infer<typeof templateSectionSchema>;
+
+export const templateContentSchema = z.object({
+  sections: z.array(templateSectionSchema).min(1),
+}).refine((content) => new Set(content.sections.map((section) => section.key)).size === content.sections.length, {
+  message: 'section keys must be unique',
+  path: ['sections'],
+});
+
+// The analysis produced when no template is chosen
+export const DEFAULT_SECTIONS: TemplateSection[] = [
+  { key: 'jobSummary', title: 'Job Summary', type: 'text', required: true, instructions: 'Brief overview of the role and key requirements' },
+  { key: 'mustHaves', title: 'Top 5 Must-Haves', type: 'bullet_list', required: true, instructions: 'Critical skills and qualifications mentioned', maxLength: 5 },
+  { key: 'challenges', title: 'Challenges/Concerns', type: 'text', required: true, instructions: 'Potential concerns or red flags identified' },
+  { key: 'jobDescription', title: 'Job Description Draft', type: 'text', required: true, instructions: 'Suggested improvements to the job posting' },
+  { key: 'recapEmail', title: 'Hiring Manager Recap Email + Scorecard', type: 'text', required: true, instructions: 'Draft follow-up email to the hiring manager' },
+];
+
+// Models sometimes answer a list with one bulleted string; accept that and split it
+const stringList = z.preprocess(
+  (value) => typeof value === 'string'
+    ? value.split(/\n+/).map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean)
+    : value,
+  z.array(z.string().min(1)).min(1),
+);
+
+export const defaultSummarySchema = z.object({
+  jobSummary: z.string().min(1),
+  mustHaves: stringList,
+  challenges: z.string().min(1),
+  jobDescription: z.string().min(1),
+  recapEmail: z.string().min(1),
+});
+
+export type DefaultSummary = z.infer<typeof defaultSummarySchema>;
+
+// "mustHaves" / "must_haves" -> "Must Haves"
+export const humanizeKey = (key: string) =>
+  key
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// Analyses from before templates declared their sections: guess each section's
+// type from the value stored for it
+const inferSections = (content: Record<string, unknown>): TemplateSection[] =>
+  Object.entries(content).map(([key, value]) => {
+    const section = { key, title: humanizeKey(key), required: true };
+    if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      return { ...section, type: 'bullet_list' as const };
+    }
+    if (Array.isArray(value) && value.every((item) => item && typeof item === 'object')) {
+      return { ...section, type: 'table' as const, columns: Object.keys(value[0] ?? {}) };
+    }
+    if (value && typeof value === 'object' && 'score' in value) {
+      return { ...section, type: 'rating' as const };
+    }
+    return { ...section, type: 'text' as const };
+  });
+
+// The sections to render a stored analysis with: its snapshot when it has one,
+// the default layout when the content matches it, otherwise inferred from the content
+export const summarySections = (templateSections: unknown, content: Record<string, unknown>): TemplateSection[] => {
+  const snapshot = z.array(templateSectionSchema).min(1).safeParse(templateSections);
+  if (snapshot.success) return snapshot.data;
+
+  if (defaultSummarySchema.safeParse(content).success) return DEFAULT_SECTIONS;
+
+  return inferSections(content);
+};
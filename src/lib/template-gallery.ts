@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+// A public template with its author and community stats
+export type GalleryTemplate = Database['public']['Functions']['get_template_gallery']['Returns'][number];
+
+export const loadGallery = async (): Promise<GalleryTemplate[]> => {
+  const { data, error } = await supabase.rpc('get_template_gallery');
+
+  if (error) throw error;
+  return data;
+};
+
+// Templates grouped by category, categories in alphabetical order
+export const groupByCategory = (templates: GalleryTemplate[]) => {
+  const groups = new Map<string, GalleryTemplate[]>();
+  for (const template of templates) {
+    const category = template.category || 'general';
+    groups.set(category, [...(groups.get(category) ?? []), template]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+// Copies a public template into the user's own, private templates. The copy
+// starts its own version history and remembers where it came from.
+export const forkTemplate = async (userId: string, template: GalleryTemplate) => {
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .insert({
+      user_id: userId,
+      name: template.user_id === userId ? `${template.name} (copy)` : template.name,
+      description: template.description,
+      category: template.category,
+      template_content: template.template_content,
+      is_public: false,
+      forked_from_id: template.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const setTemplateStarred = async (userId: string, templateId: string, starred: boolean) => {
+  const { error } = starred
+    ? await supabase.from('template_stars').insert({ user_id: userId, template_id: templateId })
+    : await supabase.from('template_stars').delete().eq('user_id', userId).eq('template_id', templateId);
+
+  if (error) throw error;
+};
+
+// Rates a template 1-5, replacing the user's earlier rating; null removes it
+export const rateTemplate = async (userId: string, templateId: string, rating: number | null) => {
+  const { error } = rating
+    ? await supabase
+        .from('template_ratings')
+        .upsert({ user_id: userId, template_id: templateId, rating }, { onConflict: 'template_id,user_id' })
+    : await supabase
+        .from('template_ratings')
+        .delete()
+        .eq('user_id', userId)
+        .eq('template_id', templateId);
+
+  if (error) throw error;
+};
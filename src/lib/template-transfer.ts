@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { templateContentSchema } from '@/lib/summary-schema';
+
+// Identifies template files, so arbitrary JSON/YAML is rejected up front.
+// Bump TEMPLATE_DOCUMENT_VERSION when the layout changes and keep reading older ones.
+export const TEMPLATE_DOCUMENT_FORMAT = 'recruiterlab.templates';
+export const TEMPLATE_DOCUMENT_VERSION = 1;
+
+export type TemplateFileFormat = 'json' | 'yaml';
+
+const exportedTemplateSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().nullish(),
+  category: z.string().nullish(),
+  sections: templateContentSchema.shape.sections,
+}).refine((template) => new Set(template.sections.map((section) => section.key)).size === template.sections.length, {
+  message: 'section keys must be unique',
+  path: ['sections'],
+});
+
+export type ExportedTemplate = z.infer<typeof exportedTemplateSchema>;
+
+const templateDocumentSchema = z.object({
+  format: z.literal(TEMPLATE_DOCUMENT_FORMAT, `not a template file (expected format "${TEMPLATE_DOCUMENT_FORMAT}")`),
+  version: z.literal(TEMPLATE_DOCUMENT_VERSION, `unsupported version (expected ${TEMPLATE_DOCUMENT_VERSION})`),
+  exportedAt: z.string().optional(),
+  templates: z.array(exportedTemplateSchema).min(1),
+});
+
+// A file that could not be read, with one line per problem found
+export class TemplateImportError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'TemplateImportError';
+  }
+}
+
+interface ExportableTemplate {
+  name: string;
+  description: string | null;
+  category: string | null;
+  template_content: Json | null;
+}
+
+export const exportTemplates = (templates: ExportableTemplate[], format: TemplateFileFormat) => {
+  const document = {
+    format: TEMPLATE_DOCUMENT_FORMAT,
+    version: TEMPLATE_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map((template) => ({
+      name: template.name,
+      description: template.description,
+      category: template.category,
+      sections: (template.template_content as { sections?: unknown } | null)?.sections ?? [],
+    })),
+  };
+
+  return format === 'yaml' ? stringifyYaml(document) : JSON.stringify(document, null, 2);
+};
+
+// "engineering-screen.templates.yaml" for one template, dated for several
+export const exportFileName = (templates: { name: string }[], format: TemplateFileFormat) => {
+  const base = templates.length === 1
+    ? templates[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'
+    : `templates-${new Date().toISOString().split('T')[0]}`;
+  return `${base}.templates.${format === 'yaml' ? 'yaml' : 'json'}`;
+};
+
+// "templates.1.sections.0.key: must start with a letter…"
+const describeIssue = (issue: z.core.$ZodIssue) =>
+  issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+
+// Reads a template file. YAML is a superset of JSON, but JSON files are parsed
+// as JSON so their syntax errors point at the right place.
+export const parseTemplateDocument = (text: string, fileName: string): ExportedTemplate[] => {
+  let raw: unknown;
+  try {
+    raw = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error: unknown) {
+    throw new TemplateImportError(`${fileName} could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = templateDocumentSchema.safeParse(raw);
+  if (!result.success) {
+    throw new TemplateImportError(`${fileName} is not a valid template file`, result.error.issues.map(describeIssue));
+  }
+  return result.data.templates;
+};
+
+// What to do with an imported template whose name is already taken
+export type ConflictResolution = 'overwrite' | 'duplicate' | 'skip';
+
+export interface ImportCandidate {
+  template: ExportedTemplate;
+  // The user's template with the same name, if any
+  conflictId: string | null;
+  resolution: ConflictResolution;
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// Matches imported templates to the user's own by name, case-insensitively.
+// Keeping both is the default; overwriting is opt-in.
+export const findConflicts = (templates: ExportedTemplate[], existing: { id: string; name: string }[]): ImportCandidate[] => {
+  const byName = new Map(existing.map((template) => [nameKey(template.name), template.id]));
+  return templates.map((template) => ({
+    template,
+    conflictId: byName.get(nameKey(template.name)) ?? null,
+    resolution: 'duplicate',
+  }));
+};
+
+// "Screen" -> "Screen (2)", "Screen (3)", ... until the name is free
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(nameKey(candidate)); n++) candidate = `${name} (${n})`;
+  return candidate;
+};
+
+// Creates or overwrites the user's templates. Overwriting records a new version,
+// so earlier analyses keep the content they were produced with.
+export const importTemplates = async (userId: string, candidates: ImportCandidate[], existingNames: string[]) => {
+  const taken = new Set(existingNames.map(nameKey));
+  let imported = 0;
+
+  for (const { template, conflictId, resolution } of candidates) {
+    if (resolution === 'skip') continue;
+
+    const fields = {
+      description: template.description ?? null,
+      category: template.category ?? 'general',
+      template_content: { sections: template.sections },
+    };
+
+    const overwrite = conflictId && resolution === 'overwrite';
+    const name = overwrite ? template.name : uniqueName(template.name, taken);
+
+    const { error } = overwrite
+      ? await supabase
+          .from('summary_templates')
+          .update({ name, ...fields })
+          .eq('id', conflictId)
+          .eq('user_id', userId)
+      : await supabase
+          .from('summary_templates')
+          .insert({ user_id: userId, name, ...fields, is_public: false });
+
+    if (error) throw error;
+    taken.add(nameKey(name));
+    imported++;
+  }
+
+  return imported;
+};
@@ -0,0 +1,85 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { TemplateSection } from '@/lib/summary-schema';
+
+// A saved state of a template. Versions are written by the database whenever a
+// template changes and are never edited afterwards.
+export type TemplateVersion = Tables<'summary_template_versions'>;
+
+// Every version of the template, newest first
+export const loadTemplateVersions = async (templateId: string): Promise<TemplateVersion[]> => {
+  const { data, error } = await supabase
+    .from('summary_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// Makes the version's content current again, recorded as a new version.
+// Only the template's owner may restore.
+export const restoreTemplateVersion = async (versionId: string) => {
+  const { data, error } = await supabase.rpc('restore_template_version', { p_version_id: versionId });
+
+  if (error) throw error;
+  return data;
+};
+
+// Sections as stored, without validating them: older templates may predate
+// section types, and history should still describe them
+const storedSections = (content: Json | null): Partial<TemplateSection>[] => {
+  const sections = content && typeof content === 'object' && !Array.isArray(content) ? content.sections : null;
+  return Array.isArray(sections) ? (sections as Partial<TemplateSection>[]) : [];
+};
+
+const SECTION_FIELDS: (keyof TemplateSection)[] = ['title', 'type', 'required', 'instructions', 'maxLength', 'columns'];
+
+const FIELD_LABELS: Record<keyof TemplateSection, string> = {
+  key: 'key',
+  title: 'title',
+  type: 'type',
+  required: 'required',
+  instructions: 'instructions',
+  maxLength: 'length limit',
+  columns: 'columns',
+};
+
+// Human-readable changes from one version to the next, e.g.
+// ['Renamed from "Screen"', 'Added section "Culture fit"', 'Changed "Skills": type, instructions']
+export function describeTemplateChanges(previous: TemplateVersion | null, current: TemplateVersion): string[] {
+  if (!previous) return ['Created'];
+
+  const changes: string[] = [];
+  if (current.restored_from_version !== null) changes.push(`Restored version ${current.restored_from_version}`);
+  if (previous.name !== current.name) changes.push(`Renamed from "${previous.name}"`);
+  if ((previous.description ?? '') !== (current.description ?? '')) changes.push('Description changed');
+  if (previous.category !== current.category) changes.push(`Category ${previous.category ?? 'none'} → ${current.category ?? 'none'}`);
+
+  const before = storedSections(previous.template_content);
+  const after = storedSections(current.template_content);
+  const beforeByKey = new Map(before.map((section) => [section.key, section]));
+  const afterKeys = new Set(after.map((section) => section.key));
+
+  for (const section of after) {
+    const old = beforeByKey.get(section.key);
+    if (!old) {
+      changes.push(`Added section "${section.title ?? section.key}"`);
+      continue;
+    }
+    const fields = SECTION_FIELDS.filter((field) => JSON.stringify(old[field]) !== JSON.stringify(section[field]));
+    if (fields.length) {
+      changes.push(`Changed "${section.title ?? section.key}": ${fields.map((field) => FIELD_LABELS[field]).join(', ')}`);
+    }
+  }
+  for (const section of before) {
+    if (!afterKeys.has(section.key)) changes.push(`Removed section "${section.title ?? section.key}"`);
+  }
+
+  const order = (sections: Partial<TemplateSection>[]) =>
+    sections.map((section) => section.key).filter((key) => beforeByKey.has(key) && afterKeys.has(key)).join();
+  if (order(before) !== order(after)) changes.push('Sections reordered');
+
+  return changes.length ? changes : ['No content changes'];
+}
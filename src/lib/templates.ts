@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_SECTIONS, templateContentSchema, type TemplateSection } from '@/lib/summary-schema';
+
+// An analysis template the user can pick for a new interview
+export interface TemplateOption {
+  id: string;
+  name: string;
+  category: string | null;
+  isOwn: boolean;
+  sections: TemplateSection[];
+}
+
+export interface TemplateDefaults {
+  // The user's default template; null means the built-in analysis
+  defaultTemplateId: string | null;
+  // Template ids keyed by positionKey(position title)
+  byPosition: Record<string, string>;
+}
+
+// "  Senior  Software Engineer " -> "senior software engineer"
+export const positionKey = (positionTitle: string) => positionTitle.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Sections a template (or the built-in analysis, for null) will generate
+export const sectionsOf = (template: TemplateOption | null | undefined) => template?.sections ?? DEFAULT_SECTIONS;
+
+// The user's own templates and public ones, skipping any whose sections are invalid
+export const loadTemplateOptions = async (userId: string): Promise<TemplateOption[]> => {
+  const { data, error } = await supabase
+    .from('summary_templates')
+    .select('id, name, category, user_id, template_content')
+    .or(`user_id.eq.${userId},is_public.eq.true`)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).flatMap((template) => {
+    const content = templateContentSchema.safeParse(template.template_content);
+    if (!content.success) return [];
+    return [{
+      id: template.id,
+      name: template.name,
+      category: template.category,
+      isOwn: template.user_id === userId,
+      sections: content.data.sections,
+    }];
+  });
+};
+
+export const loadTemplateDefaults = async (userId: string): Promise<TemplateDefaults> => {
+  const [profile, positions] = await Promise.all([
+    supabase.from('user_profiles').select('default_template_id').eq('user_id', userId).maybeSingle(),
+    supabase.from('position_templates').select('position_key, template_id').eq('user_id', userId),
+  ]);
+
+  if (profile.error) throw profile.error;
+  if (positions.error) throw positions.error;
+
+  return {
+    defaultTemplateId: profile.data?.default_template_id ?? null,
+    byPosition: Object.fromEntries((positions.data || []).map((row) => [row.position_key, row.template_id])),
+  };
+};
+
+// The template to preselect for an interview: the position's mapping first, then the user's default
+export const resolveTemplateId = (defaults: TemplateDefaults, positionTitle: string) =>
+  defaults.byPosition[positionKey(positionTitle)] ?? defaults.defaultTemplateId;
+
+export const saveDefaultTemplate = async (userId: string, templateId: string | null) => {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ default_template_id: templateId })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Maps a position title to a template; null removes the mapping
+export const savePositionTemplate = async (userId: string, positionTitle: string, templateId: string | null) => {
+  const key = positionKey(positionTitle);
+
+  const { error } = templateId
+    ? await supabase
+        .from('position_templates')
+        .upsert({ user_id: userId, position_key: key, template_id: templateId }, { onConflict: 'user_id,position_key' })
+    : await supabase
+        .from('position_templates')
+        .delete()
+        .eq('user_id', userId)
+        .eq('position_key', key);
+
+  if (error) throw error;
+};
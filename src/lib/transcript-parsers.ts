@@ -0,0 +1,232 @@
+// Parsers for meeting transcripts exported by Zoom, Teams and Meet. Every format
+// is reduced to the same timed segments the audio transcription produces, so
+// imported and transcribed interviews look the same from here on.
+
+export interface ParsedSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker: string | null;
+}
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'zoom' | 'teams' | 'text';
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  // Plain transcript for analysis and editing, one "Speaker: text" line per turn
+  text: string;
+  // Empty for plain text, which carries no timing
+  segments: ParsedSegment[];
+}
+
+export const TRANSCRIPT_FILE_EXTENSIONS = ['txt', 'vtt', 'srt', 'docx'];
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() || '';
+
+// "01:02:03.456", "02:03,456", "0:00:03.12" or "0:03" -> seconds
+const parseTimestamp = (value: string) => {
+  const [clock, fraction = '0'] = value.trim().replace(',', '.').split('.');
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Cue text names its speaker either with a WebVTT voice tag (Teams, Meet) or a
+// "Name: " prefix (Zoom); the rest of the markup is dropped.
+function splitSpeaker(cueText: string): { speaker: string | null; text: string } {
+  const voice = cueText.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  const text = decodeEntities(cueText.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+  if (voice) {
+    return { speaker: voice[1].trim(), text };
+  }
+
+  const prefixed = text.match(/^([^:]{1,60}):\s+(.+)$/);
+  // Ignore prefixes that are really sentences ("Note that the role: ...")
+  if (prefixed && prefixed[1].split(/\s+/).length <= 5) {
+    return { speaker: prefixed[1].trim(), text: prefixed[2] };
+  }
+
+  return { speaker: null, text };
+}
+
+// WebVTT and SRT share the cue layout: optional identifier, a timing line, then
+// text lines until a blank line. Cues copied into Word documents put the speaker
+// on a line of its own instead (`speakerLine`).
+function parseCues(content: string, { speakerLine = false } = {}): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const textLines = lines.slice(timingIndex + 1).filter((line) => line.trim());
+
+    const { speaker, text } = speakerLine && textLines.length > 1
+      ? { speaker: textLines[0].trim(), text: splitSpeaker(textLines.slice(1).join(' ')).text }
+      : splitSpeaker(textLines.join(' '));
+    if (!text) continue;
+
+    segments.push({ start: parseTimestamp(start), end: parseTimestamp(end), text, speaker });
+  }
+
+  return segments;
+}
+
+// Transcripts that only stamp the start of each turn ("[Dana Smith] 10:02:33" in
+// Zoom's text export, "Dana Smith   0:03" in Teams' Word export): the turn runs
+// until the next one starts.
+function parseTurns(lines: string[], header: RegExp): ParsedSegment[] {
+  const turns: Array<{ speaker: string; start: number; lines: string[] }> = [];
+
+  for (const line of lines.map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(header);
+    if (match) {
+      turns.push({ speaker: match[1].trim(), start: parseTimestamp(match[2]), lines: [] });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].lines.push(line);
+    }
+  }
+
+  // Zoom stamps wall-clock time; make the first turn start at zero
+  const origin = turns[0]?.start ?? 0;
+
+  return turns
+    .map((turn, index) => ({
+      start: turn.start - origin,
+      end: (turns[index + 1]?.start ?? turn.start) - origin,
+      text: turn.lines.join(' '),
+      speaker: turn.speaker,
+    }))
+    .filter((segment) => segment.text);
+}
+
+const ZOOM_TURN_HEADER = /^\[(.+?)\]\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+// A display name of up to five capitalised words (an optional "(Guest)"-style tag
+// included), then the time. Spoken lines that end in a time, like "Let's meet
+// at 10:30", have lowercase words and so stay part of the turn.
+const TEAMS_TURN_HEADER = /^(\p{Lu}[\p{L}'’.-]*,?(?:\s+(?:\p{Lu}[\p{L}'’.-]*,?|\([\p{L} ]+\))){0,4})\s+(\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?)$/u;
+
+// Minimal zip reader: finds one entry through the central directory and inflates
+// it with the browser's DecompressionStream. Enough for the XML inside a .docx.
+async function readZipEntry(buffer: ArrayBuffer, entryName: string): Promise<string> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  let endOfDirectory = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOfDirectory = offset;
+      break;
+    }
+  }
+  if (endOfDirectory === -1) {
+    throw new Error('This file is not a valid Word document');
+  }
+
+  const entryCount = view.getUint16(endOfDirectory + 10, true);
+  let offset = view.getUint32(endOfDirectory + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error('Unsupported compression in Word document');
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error('This Word document has no text content');
+}
+
+async function docxParagraphs(file: File): Promise<string[]> {
+  const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+
+  return Array.from(document.getElementsByTagName('w:p')).map((paragraph) =>
+    Array.from(paragraph.getElementsByTagName('w:t')).map((node) => node.textContent || '').join('')
+  );
+}
+
+// "Dana: ..." lines, merging consecutive segments from the same speaker
+function transcriptText(segments: ParsedSegment[]): string {
+  const turns: string[] = [];
+  let lastSpeaker: string | null = null;
+
+  for (const segment of segments) {
+    if (segment.speaker && segment.speaker === lastSpeaker) {
+      turns[turns.length - 1] += ` ${segment.text}`;
+    } else {
+      turns.push(segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text);
+    }
+    lastSpeaker = segment.speaker;
+  }
+
+  return turns.join('\n\n');
+}
+
+function fromSegments(format: TranscriptFormat, segments: ParsedSegment[]): ParsedTranscript {
+  return { format, segments, text: transcriptText(segments) };
+}
+
+// Detects the export format from the file name and content
+export async function parseTranscriptFile(file: File): Promise<ParsedTranscript> {
+  const extension = extensionOf(file.name);
+
+  if (extension === 'docx') {
+    const paragraphs = await docxParagraphs(file);
+    // Older Teams exports embed the WebVTT cues in the document
+    const segments = paragraphs.some((line) => TIMING_LINE.test(line))
+      ? parseCues(paragraphs.join('\n').replace(/\n(?=\s*[\d:.]+\s*-->)/g, '\n\n'), { speakerLine: true })
+      : parseTurns(paragraphs, TEAMS_TURN_HEADER);
+
+    if (segments.length === 0) {
+      throw new Error('Could not find a Teams transcript in this Word document');
+    }
+    return fromSegments('teams', segments);
+  }
+
+  const content = await file.text();
+
+  if (extension === 'vtt' || content.trimStart().startsWith('WEBVTT')) {
+    return fromSegments('vtt', parseCues(content));
+  }
+
+  if (extension === 'srt' || TIMING_LINE.test(content.split('\n').slice(0, 5).join('\n'))) {
+    return fromSegments('srt', parseCues(content));
+  }
+
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.some((line) => ZOOM_TURN_HEADER.test(line.trim()))) {
+    return fromSegments('zoom', parseTurns(lines, ZOOM_TURN_HEADER));
+  }
+
+  return { format: 'text', text: content, segments: [] };
+}
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseTranscriptFile, TRANSCRIPT_FILE_EXTENSIONS, type ParsedSegment } from '@/lib/transcript-parsers';
+
+export type TranscriptSegment = Tables<'transcript_segments'>;
+
+// Display names for detected speakers, keyed by transcript_segments.speaker
+export type SpeakerLabels = Record<string, string>;
+
+// Uploads that already are a transcript rather than a recording
+export const isTranscriptFile = (fileName: string) =>
+  TRANSCRIPT_FILE_EXTENSIONS.includes(fileName.toLowerCase().split('.').pop() || '');
+
+// 75.4 -> "1:15", 3725 -> "1:02:05"
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+export const loadTranscriptSegments = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from('transcript_segments')
+    .select('*')
+    .eq('interview_id', interviewId)
+    .order('segment_index', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+// Stores the timed segments of an imported transcript for a new interview
+export const saveTranscriptSegments = async (interviewId: string, segments: ParsedSegment[]) => {
+  if (segments.length === 0) return;
+
+  const { error } = await supabase
+    .from('transcript_segments')
+    .insert(segments.map((segment, index) => ({
+      interview_id: interviewId,
+      segment_index: index,
+      start_seconds: Math.round(segment.start * 1000) / 1000,
+      end_seconds: Math.round(segment.end * 1000) / 1000,
+      text: segment.text,
+      speaker: segment.speaker,
+    })));
+
+  if (error) throw error;
+};
+
+// Parses an uploaded transcript file, stores its timed segments on the interview
+// and returns the plain text to analyse
+export const importTranscriptFile = async (interviewId: string, file: File) => {
+  const parsed = await parseTranscriptFile(file);
+
+  if (parsed.text.trim().length === 0) {
+    throw new Error('The transcript file appears to be empty.');
+  }
+
+  await saveTranscriptSegments(interviewId, parsed.segments);
+  return parsed.text;
+};
+
+// The segment being spoken at `seconds` of playback. Segments are sorted by start
+// time; in a gap between two segments the earlier one stays active.
+export const findSegmentAt = (segments: TranscriptSegment[], seconds: number) => {
+  let low = 0;
+  let high = segments.length - 1;
+  let found: TranscriptSegment | null = null;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (segments[middle].start_seconds <= seconds) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+};
+
+// Distinct speakers in order of first appearance
+export const listSpeakers = (segments: TranscriptSegment[]) =>
+  [...new Set(segments.map((segment) => segment.speaker).filter((speaker): speaker is string => !!speaker))];
+
+export const speakerName = (speaker: string, labels: SpeakerLabels) => labels[speaker]?.trim() || speaker;
+
+export const saveSpeakerLabels = async (interviewId: string, labels: SpeakerLabels) => {
+  // Blank names fall back to the detected label
+  const cleaned = Object.fromEntries(
+    Object.entries(labels).map(([speaker, name]) => [speaker, name.trim()]).filter(([, name]) => name)
+  );
+
+  const { error } = await supabase
+    .from('interviews')
+    .update({ speaker_labels: cleaned })
+    .eq('id', interviewId);
+
+  if (error) throw error;
+  return cleaned as SpeakerLabels;
+};
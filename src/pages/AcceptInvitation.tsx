@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { acceptInvitation } from '@/lib/share-links';
+import { Lock, Mail } from 'lucide-react';
+
+// Landing page for emailed invitations: once the invitee is signed in with the
+// invited address, accepting forwards them to the share page for their link
+export const AcceptInvitation = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading, signOut } = useAuth();
+  const navigate = useNavigate();
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token || !user) return;
+
+    acceptInvitation(token)
+      .then((shareToken) => navigate(`/s/${shareToken}`, { replace: true }))
+      .catch((error: unknown) => {
+        setAcceptError(error instanceof Error ? error.message : 'This invitation could not be opened');
+      });
+  }, [token, user, navigate]);
+
+  const signInPath = `/auth?redirect=${encodeURIComponent(`/invite/${token}`)}`;
+
+  if (loading || (user && !acceptError)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Card className="max-w-md w-full text-center">
+        <CardContent className="pt-6 space-y-4">
+          {acceptError ? (
+            <>
+              <Lock className="h-8 w-8 text-muted-foreground mx-auto" />
+              <h1 className="text-xl font-semibold text-foreground">Invitation unavailable</h1>
+              <p className="text-muted-foreground">{acceptError}</p>
+              <Button
+                variant="outline"
+                onClick={async () => {
+                  await signOut();
+                  setAcceptError(null);
+                }}
+              >
+                Sign in with another account
+              </Button>
+            </>
+          ) : (
+            <>
+              <Mail className="h-8 w-8 text-primary mx-auto" />
+              <h1 className="text-xl font-semibold text-foreground">You've been invited to an interview</h1>
+              <p className="text-muted-foreground">
+                Sign in or create an account with the address this invitation was sent to.
+              </p>
+              <Button asChild>
+                <Link to={signInPath}>Sign in to open it</Link>
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,18 +19,23 @@ export const Auth = () => {
   const [loading, setLoading] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // Where to go after signing in, e.g. back to a shared interview; only paths on this site
+  const redirect = searchParams.get('redirect');
+  const redirectTo = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
+
   useEffect(() => {
     // Check if user is already logged in
     const checkAuth = async () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (session) {
-        navigate('/dashboard');
+        navigate(redirectTo);
       }
     };
     checkAuth();
-  }, [navigate]);
+  }, [navigate, redirectTo]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,7 +46,7 @@ export const Auth = () => {
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/dashboard`,
+          emailRedirectTo: `${window.location.origin}${redirectTo}`,
           data: {
             full_name: fullName,
             company: company,
@@ -78,7 +83,7 @@ export const Auth = () => {
 
       if (error) throw error;
 
-      navigate('/dashboard');
+      navigate(redirectTo);
     } catch (error: any) {
       toast({
         title: "Sign in failed",
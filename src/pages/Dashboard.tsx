@@ -2,14 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { StreamlinedUpload } from "@/components/StreamlinedUpload";
-import { SmartForm } from "@/components/SmartForm";
+import { BatchUpload } from "@/components/BatchUpload";
+import { SmartForm, type FormData as SmartFormData } from "@/components/SmartForm";
 import { ProgressTracker } from "@/components/ProgressTracker";
 import { QuickStartWizard } from "@/components/QuickStartWizard";
 import { InterviewsList } from "@/components/InterviewsList";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from '@/integrations/supabase/client';
-import { LogOut, Users, Clock, Brain, Upload, FileAudio, Sparkles } from 'lucide-react';
+import { LogOut, Users, Clock, Brain, Upload, FileAudio, Sparkles, LayoutTemplate, Files } from 'lucide-react';
 
 interface UserProfile {
   id: string;
@@ -27,7 +28,7 @@ interface Interview {
   user_id: string;
   file_name: string;
   file_size: number | null;
-  file_url: string | null;
+  storage_path: string | null;
   candidate_name: string | null;
   position_title: string | null;
   interview_date: string | null;
@@ -45,7 +46,7 @@ interface DashboardStats {
   recentInterviews: Interview[];
 }
 
-type UploadFlow = 'idle' | 'form' | 'upload' | 'processing' | 'complete';
+type UploadFlow = 'idle' | 'form' | 'upload' | 'batch' | 'processing' | 'complete';
 
 export const Dashboard = () => {
   const { user, signOut } = useAuth();
@@ -58,6 +59,7 @@ export const Dashboard = () => {
   const [loading, setLoading] = useState(true);
   const [uploadFlow, setUploadFlow] = useState<UploadFlow>('idle');
   const [currentInterviewId, setCurrentInterviewId] = useState<string | null>(null);
+  const [uploadDetails, setUploadDetails] = useState<SmartFormData | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const { toast } = useToast();
 
@@ -135,7 +137,8 @@ export const Dashboard = () => {
     }
   };
 
-  const handleFormComplete = (formData: any) => {
+  const handleFormComplete = (formData: SmartFormData) => {
+    setUploadDetails(formData);
     setUploadFlow('upload');
     toast({
       title: "Form completed",
@@ -162,9 +165,19 @@ export const Dashboard = () => {
     });
   };
 
+  const handleProcessingError = (message: string) => {
+    loadDashboardStats(user?.id || '');
+    toast({
+      title: "Processing failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
   const resetUploadFlow = () => {
     setUploadFlow('idle');
     setCurrentInterviewId(null);
+    setUploadDetails(null);
   };
 
   const startNewUpload = () => {
@@ -201,6 +214,10 @@ export const Dashboard = () => {
           </div>
           <div className="flex items-center gap-4">
             <span className="hidden md:inline text-sm text-muted-foreground font-medium">{userProfile?.full_name || 'User'}</span>
+            <Button variant="ghost" size="sm" onClick={() => window.location.href = '/templates'} className="flex items-center gap-2 px-3 py-2">
+              <LayoutTemplate className="h-5 w-5 text-primary" />
+              <span className="hidden sm:inline">Templates</span>
+            </Button>
             <Button variant="ghost" size="sm" onClick={signOut} className="flex items-center gap-2 px-3 py-2">
               <LogOut className="h-5 w-5 text-primary" />
               <span className="hidden sm:inline">Sign Out</span>
@@ -271,6 +288,7 @@ export const Dashboard = () => {
                   {uploadFlow === 'idle' ? 'Start New Analysis' : 
                    uploadFlow === 'form' ? 'Interview Details' :
                    uploadFlow === 'upload' ? 'Upload File' :
+                   uploadFlow === 'batch' ? 'Upload Several Interviews' :
                    uploadFlow === 'processing' ? 'Processing' :
                    'Analysis Complete'}
                 </CardTitle>
@@ -278,6 +296,7 @@ export const Dashboard = () => {
                   {uploadFlow === 'idle' && "Upload your interview transcript or audio to generate structured insights"}
                   {uploadFlow === 'form' && "Fill in the interview details to get started"}
                   {uploadFlow === 'upload' && "Upload your interview file for AI analysis"}
+                  {uploadFlow === 'batch' && "Add a batch of files, check the details for each, then upload them together"}
                   {uploadFlow === 'processing' && "Our AI is analyzing your interview"}
                   {uploadFlow === 'complete' && "Your interview has been successfully analyzed"}
                 </CardDescription>
@@ -290,10 +309,16 @@ export const Dashboard = () => {
                     <p className="text-muted-foreground mb-6">
                       Upload your interview file and get AI-powered insights in minutes.
                     </p>
-                    <Button onClick={startNewUpload} size="lg">
-                      <Upload className="h-4 w-4 mr-2" />
-                      Start Analysis
-                    </Button>
+                    <div className="flex flex-wrap gap-2 justify-center">
+                      <Button onClick={startNewUpload} size="lg">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Start Analysis
+                      </Button>
+                      <Button onClick={() => setUploadFlow('batch')} size="lg" variant="outline">
+                        <Files className="h-4 w-4 mr-2" />
+                        Upload Several
+                      </Button>
+                    </div>
                   </div>
                 )}
 
@@ -303,16 +328,41 @@ export const Dashboard = () => {
 
                 {uploadFlow === 'upload' && (
                   <StreamlinedUpload 
+                    initialData={uploadDetails ? {
+                      candidateName: uploadDetails.candidateName,
+                      positionTitle: uploadDetails.positionTitle,
+                      templateId: uploadDetails.templateId,
+                    } : undefined}
                     onUploadComplete={handleUploadComplete}
                     onProcessingComplete={handleProcessingComplete}
                   />
                 )}
 
+                {uploadFlow === 'batch' && (
+                  <div className="space-y-4">
+                    <BatchUpload onBatchComplete={() => loadDashboardStats(user?.id || '')} />
+                    <div className="text-center">
+                      <Button onClick={resetUploadFlow} variant="ghost">
+                        Back
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {uploadFlow === 'processing' && (
-                  <ProgressTracker 
-                    interviewId={currentInterviewId || undefined}
-                    onComplete={handleProcessingComplete}
-                  />
+                  <div className="space-y-4">
+                    <ProgressTracker 
+                      interviewId={currentInterviewId || undefined}
+                      onComplete={handleProcessingComplete}
+                      onError={handleProcessingError}
+                    />
+                    {/* Processing carries on server-side; the interview list shows where it got to */}
+                    <div className="text-center">
+                      <Button onClick={resetUploadFlow} variant="outline">
+                        Analyze Another
+                      </Button>
+                    </div>
+                  </div>
                 )}
 
                 {uploadFlow === 'complete' && (
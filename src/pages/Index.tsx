@@ -6,21 +6,15 @@ import { ResultsDisplay } from '@/components/ResultsDisplay';
 import { ApiKeyInput } from '@/components/ApiKeyInput';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { BROWSER_ANALYSIS_MODEL } from '@/lib/ai-models';
+import { defaultSummarySchema, type DefaultSummary } from '@/lib/summary-schema';
 import { RotateCcw, Zap, ArrowRight } from 'lucide-react';
 
-interface ProcessingResults {
-  jobSummary: string;
-  mustHaves: string[];
-  challenges: string;
-  jobDescription: string;
-  recapEmail: string;
-}
-
 const Index = () => {
   const [apiKey, setApiKey] = useState(() => localStorage.getItem('openai-api-key') || '');
   const [hasApiKey, setHasApiKey] = useState(() => !!localStorage.getItem('openai-api-key'));
   const [isProcessing, setIsProcessing] = useState(false);
-  const [results, setResults] = useState<ProcessingResults | null>(null);
+  const [results, setResults] = useState<DefaultSummary | null>(null);
   const [currentFilename, setCurrentFilename] = useState('');
   const { toast } = useToast();
 
@@ -54,7 +48,7 @@ const Index = () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-4',
+          model: BROWSER_ANALYSIS_MODEL,
           messages: [
             {
               role: 'system',
@@ -78,6 +72,7 @@ Focus on extracting the most important technical skills, experience requirements
           ],
           temperature: 0.3,
           max_tokens: 2000,
+          response_format: { type: 'json_object' },
         }),
       });
 
@@ -88,16 +83,24 @@ Focus on extracting the most important technical skills, experience requirements
       const data = await response.json();
       const analysisText = data.choices[0].message.content;
       
+      let parsedJson: unknown;
       try {
-        const parsedResults = JSON.parse(analysisText);
-        setResults(parsedResults);
-        toast({
-          title: "Analysis Complete",
-          description: "Your transcript has been successfully analyzed.",
-        });
-      } catch (parseError) {
+        parsedJson = JSON.parse(analysisText);
+      } catch {
         throw new Error('Failed to parse AI response');
       }
+
+      const parsed = defaultSummarySchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        console.error('AI response did not match the summary schema:', parsed.error.issues, analysisText);
+        throw new Error('The AI response was incomplete. Please try again.');
+      }
+
+      setResults(parsed.data);
+      toast({
+        title: "Analysis Complete",
+        description: "Your transcript has been successfully analyzed.",
+      });
     } catch (error) {
       console.error('Processing error:', error);
       toast({
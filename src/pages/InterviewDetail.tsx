@@ -1,25 +1,44 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ResultsDisplay } from '@/components/ResultsDisplay';
-import { ProcessingState } from '@/components/ProcessingState';
+import { AnalysisFailed } from '@/components/AnalysisFailed';
+import { summarySections } from '@/lib/summary-schema';
+import { loadSummaryVersions, versionLabel, type SummaryVersion } from '@/lib/summaries';
+import { RegenerateAnalysisDialog } from '@/components/RegenerateAnalysisDialog';
+import { SummaryVersionDiff } from '@/components/SummaryVersionDiff';
+import { ProgressTracker } from '@/components/ProgressTracker';
+import { TranscriptSegments } from '@/components/TranscriptSegments';
+import { AudioPlayer, type AudioPlayerHandle } from '@/components/AudioPlayer';
+import { SpeakerLabelsEditor } from '@/components/SpeakerLabelsEditor';
+import { ShareInterview } from '@/components/ShareInterview';
+import { downloadInterviewFile } from '@/lib/interview-media';
+import {
+  findSegmentAt,
+  isTranscriptFile,
+  listSpeakers,
+  loadTranscriptSegments,
+  type SpeakerLabels,
+  type TranscriptSegment,
+} from '@/lib/transcript';
 import { 
   ArrowLeft, 
   Save, 
-  Play, 
-  Pause, 
   Download,
   FileText,
   User,
   Calendar,
   Briefcase,
-  Clock
+  Clock,
+  RefreshCw,
+  GitCompare
 } from 'lucide-react';
 
 interface Interview {
@@ -30,16 +49,8 @@ interface Interview {
   interview_date: string | null;
   status: string;
   created_at: string;
-  file_url: string | null;
-}
-
-interface InterviewSummary {
-  id: string;
-  summary_content: any;
-  transcript_text: string | null;
-  ai_model_used: string | null;
-  processing_time_seconds: number | null;
-  created_at: string;
+  storage_path: string | null;
+  speaker_labels: SpeakerLabels;
 }
 
 export const InterviewDetail = () => {
@@ -48,11 +59,19 @@ export const InterviewDetail = () => {
   const { toast } = useToast();
   
   const [interview, setInterview] = useState<Interview | null>(null);
-  const [summary, setSummary] = useState<InterviewSummary | null>(null);
+  // Every analysis of the interview, newest first
+  const [versions, setVersions] = useState<SummaryVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
+  const [transcriptEdited, setTranscriptEdited] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const audioPlayerRef = useRef<AudioPlayerHandle>(null);
   const [editableTranscript, setEditableTranscript] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [transcriptView, setTranscriptView] = useState<'segments' | 'text'>('segments');
 
   useEffect(() => {
     if (id) {
@@ -70,24 +89,13 @@ export const InterviewDetail = () => {
         .single();
 
       if (interviewError) throw interviewError;
-      setInterview(interviewData);
+      setInterview({ ...interviewData, speaker_labels: (interviewData.speaker_labels || {}) as SpeakerLabels });
 
-      // Load interview summary if available
-      const { data: summaryData, error: summaryError } = await supabase
-        .from('interview_summaries')
-        .select('*')
-        .eq('interview_id', id)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (summaryError && summaryError.code !== 'PGRST116') {
-        throw summaryError;
-      }
-
-      if (summaryData && summaryData.length > 0) {
-        setSummary(summaryData[0]);
-        setEditableTranscript(summaryData[0].transcript_text || '');
-      }
+      // Load every analysis; the latest is shown first
+      await loadVersions();
+
+      // Timestamped segments exist for transcribed recordings, not uploaded text
+      setSegments(await loadTranscriptSegments(id!));
     } catch (error: any) {
       toast({
         title: "Error loading interview",
@@ -99,6 +107,35 @@ export const InterviewDetail = () => {
     }
   };
 
+  const loadVersions = async (selectId?: string | null) => {
+    const loaded = await loadSummaryVersions(id!);
+    const selected = loaded.find((version) => version.id === selectId) ?? loaded[0] ?? null;
+    setVersions(loaded);
+    selectVersion(selected);
+  };
+
+  const selectVersion = (version: SummaryVersion | null) => {
+    setSelectedVersionId(version?.id ?? null);
+    setEditableTranscript(version?.transcript_text || '');
+    setCompareVersionId(null);
+  };
+
+  const regenerated = async (summaryId: string | null) => {
+    setTranscriptEdited(false);
+    try {
+      await loadVersions(summaryId);
+      // process-interview marks the interview completed or failed
+      const { data } = await supabase.from('interviews').select('status').eq('id', id!).single();
+      if (data) setInterview(prev => prev ? { ...prev, status: data.status } : null);
+    } catch (error: unknown) {
+      toast({
+        title: "Error loading analyses",
+        description: error instanceof Error ? error.message : 'Could not load the new analysis',
+        variant: "destructive",
+      });
+    }
+  };
+
   const saveTranscript = async () => {
     if (!summary) return;
     
@@ -111,7 +148,10 @@ export const InterviewDetail = () => {
 
       if (error) throw error;
 
-      setSummary(prev => prev ? { ...prev, transcript_text: editableTranscript } : null);
+      setVersions(prev => prev.map((version) =>
+        version.id === summary.id ? { ...version, transcript_text: editableTranscript } : version
+      ));
+      setTranscriptEdited(true);
       toast({
         title: "Transcript saved",
         description: "Your changes have been saved successfully.",
@@ -128,23 +168,10 @@ export const InterviewDetail = () => {
   };
 
   const downloadAudio = async () => {
-    if (!interview?.file_url) return;
+    if (!interview?.storage_path) return;
 
     try {
-      const { data, error } = await supabase.storage
-        .from('interview-audio')
-        .download(interview.file_url.split('/').slice(-2).join('/'));
-
-      if (error) throw error;
-
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = interview.file_name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadInterviewFile(interview.storage_path, interview.file_name);
 
       toast({
         title: "Download started",
@@ -159,6 +186,25 @@ export const InterviewDetail = () => {
     }
   };
 
+  const speakers = listSpeakers(segments);
+  const summary = versions.find((version) => version.id === selectedVersionId) ?? null;
+  const compareVersion = versions.find((version) => version.id === compareVersionId) ?? null;
+  const summaryContent = summary?.status === 'completed' && summary.summary_content
+    ? summary.summary_content as Record<string, unknown>
+    : null;
+
+  // Segment under the playhead once playback has started
+  const activeSegment = playbackTime !== null ? findSegmentAt(segments, playbackTime) : null;
+
+  // Uploaded transcripts are stored too, but there is nothing to play
+  const recordingPath = interview?.storage_path && !isTranscriptFile(interview.file_name)
+    ? interview.storage_path
+    : null;
+
+  const playSegment = (segment: TranscriptSegment) => {
+    audioPlayerRef.current?.seek(segment.start_seconds, true);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -229,9 +275,16 @@ export const InterviewDetail = () => {
                 <p className="text-muted-foreground">{interview.file_name}</p>
               </div>
             </div>
-            <Badge variant={getStatusBadge(interview.status).variant}>
-              {getStatusBadge(interview.status).label}
-            </Badge>
+            <div className="flex items-center gap-3">
+              <ShareInterview
+                interviewId={interview.id}
+                interviewName={interview.file_name}
+                candidateName={interview.candidate_name || 'Unnamed Interview'}
+              />
+              <Badge variant={getStatusBadge(interview.status).variant}>
+                {getStatusBadge(interview.status).label}
+              </Badge>
+            </div>
           </div>
         </div>
       </div>
@@ -286,17 +339,17 @@ export const InterviewDetail = () => {
               </div>
             </div>
 
-            {interview.file_url && (
+            {interview.storage_path && (
               <div className="mt-6 pt-6 border-t">
-                <div className="flex items-center gap-4">
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setIsPlaying(!isPlaying)}
-                    className="gap-2"
-                  >
-                    {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
-                    {isPlaying ? 'Pause' : 'Play'} Audio
-                  </Button>
+                {recordingPath && (
+                  <AudioPlayer
+                    ref={audioPlayerRef}
+                    storagePath={recordingPath}
+                    fileName={interview.file_name}
+                    onTimeUpdate={setPlaybackTime}
+                  />
+                )}
+                <div className="flex items-center gap-4 mt-4">
                   <Button variant="outline" onClick={downloadAudio} className="gap-2">
                     <Download className="h-4 w-4" />
                     Download
@@ -314,12 +367,71 @@ export const InterviewDetail = () => {
             <TabsTrigger value="transcript">Transcript</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="analysis" className="mt-6">
+          <TabsContent value="analysis" className="mt-6 space-y-6">
+            {versions.length > 0 && interview.status !== 'processing' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={selectedVersionId ?? undefined}
+                  onValueChange={(value) => selectVersion(versions.find((version) => version.id === value) ?? null)}
+                >
+                  <SelectTrigger className="w-auto min-w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {versionLabel(version)}{version.status === 'failed' ? ' (failed)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {versions.length > 1 && summary?.status === 'completed' && (
+                  <Select
+                    value={compareVersionId ?? 'none'}
+                    onValueChange={(value) => setCompareVersionId(value === 'none' ? null : value)}
+                  >
+                    <SelectTrigger className="w-auto min-w-[200px]">
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No comparison</SelectItem>
+                      {versions
+                        .filter((version) => version.id !== selectedVersionId && version.status === 'completed')
+                        .map((version) => (
+                          <SelectItem key={version.id} value={version.id}>Compare with v{version.version}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" onClick={() => setIsRegenerateOpen(true)} className="gap-2 ml-auto">
+                  <RefreshCw className="h-4 w-4" />
+                  Regenerate
+                </Button>
+              </div>
+            )}
+
             {interview.status === 'processing' ? (
-              <ProcessingState />
-            ) : summary?.summary_content ? (
+              <ProgressTracker
+                interviewId={interview.id}
+                onComplete={loadInterviewData}
+                onError={loadInterviewData}
+              />
+            ) : summary?.status === 'failed' ? (
+              <AnalysisFailed
+                errorMessage={summary.error_message}
+                rawResponse={summary.raw_response}
+                model={summary.ai_model_used}
+              />
+            ) : summary && compareVersion ? (
+              <SummaryVersionDiff
+                before={compareVersion.version < summary.version ? compareVersion : summary}
+                after={compareVersion.version < summary.version ? summary : compareVersion}
+              />
+            ) : summaryContent ? (
               <ResultsDisplay 
-                results={summary.summary_content}
+                results={summaryContent}
+                sections={summarySections(summary?.template_sections, summaryContent)}
                 filename={interview.file_name}
               />
             ) : (
@@ -342,20 +454,69 @@ export const InterviewDetail = () => {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle>Interview Transcript</CardTitle>
-                  {summary && (
-                    <Button 
-                      onClick={saveTranscript}
-                      disabled={isSaving}
-                      className="gap-2"
-                    >
-                      <Save className="h-4 w-4" />
-                      {isSaving ? 'Saving...' : 'Save Changes'}
-                    </Button>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {segments.length > 0 && (
+                      <>
+                        <Button
+                          variant={transcriptView === 'segments' ? 'secondary' : 'ghost'}
+                          size="sm"
+                          onClick={() => setTranscriptView('segments')}
+                        >
+                          Timeline
+                        </Button>
+                        <Button
+                          variant={transcriptView === 'text' ? 'secondary' : 'ghost'}
+                          size="sm"
+                          onClick={() => setTranscriptView('text')}
+                        >
+                          Edit Text
+                        </Button>
+                      </>
+                    )}
+                    {summary && (segments.length === 0 || transcriptView === 'text') && (
+                      <Button 
+                        onClick={saveTranscript}
+                        disabled={isSaving}
+                        className="gap-2"
+                      >
+                        <Save className="h-4 w-4" />
+                        {isSaving ? 'Saving...' : 'Save Changes'}
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
-                {summary ? (
+                {transcriptEdited && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-primary/30 bg-primary/5 p-3 mb-4">
+                    <p className="text-sm text-foreground">
+                      The analysis was produced from the transcript before your edits.
+                    </p>
+                    <Button size="sm" onClick={() => setIsRegenerateOpen(true)} className="gap-2">
+                      <RefreshCw className="h-4 w-4" />
+                      Regenerate Analysis
+                    </Button>
+                  </div>
+                )}
+                {segments.length > 0 && transcriptView === 'segments' ? (
+                  <>
+                    {speakers.length > 0 && (
+                      <SpeakerLabelsEditor
+                        interviewId={interview.id}
+                        speakers={speakers}
+                        labels={interview.speaker_labels}
+                        onSaved={(labels) => setInterview(prev => prev ? { ...prev, speaker_labels: labels } : null)}
+                      />
+                    )}
+                    <TranscriptSegments
+                      segments={segments}
+                      speakerLabels={interview.speaker_labels}
+                      activeSegmentId={activeSegment?.id}
+                      onSegmentClick={recordingPath ? playSegment : undefined}
+                      autoScroll
+                    />
+                  </>
+                ) : summary ? (
                   <Textarea
                     value={editableTranscript}
                     onChange={(e) => setEditableTranscript(e.target.value)}
@@ -375,6 +536,17 @@ export const InterviewDetail = () => {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <RegenerateAnalysisDialog
+          open={isRegenerateOpen}
+          onOpenChange={setIsRegenerateOpen}
+          interviewId={interview.id}
+          transcript={editableTranscript}
+          templateId={summary?.template_id ?? null}
+          hasSpeakerSegments={speakers.length > 0}
+          preferTranscriptText={transcriptEdited}
+          onRegenerated={regenerated}
+        />
       </div>
     </div>
   );
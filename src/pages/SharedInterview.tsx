@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ResultsDisplay } from '@/components/ResultsDisplay';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { summarySections } from '@/lib/summary-schema';
+import {
+  addSharedComment,
+  loadSharedInterview,
+  updateSharedTranscript,
+  type SharedInterview as SharedInterviewData,
+} from '@/lib/share-links';
+import { Brain, Lock, MessageSquare, Save } from 'lucide-react';
+
+// Radix Select needs a non-empty value for comments on the whole analysis
+const WHOLE_ANALYSIS = 'all';
+
+// Public page for a share link: the latest analysis, read-only unless the
+// link's scope allows commenting or editing the transcript
+export const SharedInterview = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [shared, setShared] = useState<SharedInterviewData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comment, setComment] = useState('');
+  const [commentSection, setCommentSection] = useState(WHOLE_ANALYSIS);
+  const [transcript, setTranscript] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await loadSharedInterview(token);
+      setShared(data);
+      setTranscript(data.summary?.transcript_text ?? '');
+    } catch (error: unknown) {
+      setLoadError(error instanceof Error ? error.message : 'This link could not be opened');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const postComment = async () => {
+    if (!token || !comment.trim()) return;
+
+    setSaving(true);
+    try {
+      const sectionKey = commentSection === WHOLE_ANALYSIS ? null : commentSection;
+      const id = await addSharedComment(token, comment, sectionKey);
+      // Shown locally rather than reloaded, which would count as another visit
+      setShared((prev) => prev && {
+        ...prev,
+        comments: [...(prev.comments ?? []), {
+          id,
+          comment_text: comment.trim(),
+          section_key: sectionKey,
+          created_at: new Date().toISOString(),
+          author_name: 'You',
+        }],
+      });
+      setComment('');
+    } catch (error: unknown) {
+      toast({
+        title: "Comment failed",
+        description: error instanceof Error ? error.message : 'Could not post your comment',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveTranscript = async () => {
+    if (!token || !shared?.summary) return;
+
+    setSaving(true);
+    try {
+      await updateSharedTranscript(token, shared.summary.id, transcript);
+      toast({
+        title: "Transcript saved",
+        description: "The owner will see your corrections.",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save the transcript',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (loadError || !shared) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6 space-y-3">
+            <Lock className="h-8 w-8 text-muted-foreground mx-auto" />
+            <h1 className="text-xl font-semibold text-foreground">Link unavailable</h1>
+            <p className="text-muted-foreground">{loadError}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const content = shared.summary?.summary_content ?? {};
+  const sections = summarySections(shared.summary?.template_sections, content);
+  const canComment = shared.permissions.includes('comment');
+  const canEdit = shared.permissions.includes('edit');
+  const signInPath = `/auth?redirect=${encodeURIComponent(`/s/${token}`)}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-card">
+        <div className="max-w-6xl mx-auto p-6 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">
+              {shared.interview.candidate_name || 'Unnamed Interview'}
+            </h1>
+            <p className="text-muted-foreground">
+              {[shared.interview.position_title, shared.interview.interview_date && new Date(shared.interview.interview_date).toLocaleDateString()]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Brain className="h-5 w-5 text-primary" />
+            Shared from RecruiterLab
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {shared.summary ? (
+          <ResultsDisplay
+            results={content}
+            sections={sections}
+            filename={shared.interview.file_name}
+          />
+        ) : (
+          <Card>
+            <CardContent className="pt-6 text-muted-foreground">
+              This interview has not been analysed yet.
+            </CardContent>
+          </Card>
+        )}
+
+        {canComment && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Comments
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(shared.comments ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {(shared.comments ?? []).map((entry) => (
+                    <li key={entry.id} className="rounded-lg border p-3">
+                      <p className="text-xs text-muted-foreground">
+                        {entry.author_name} · {new Date(entry.created_at).toLocaleString()}
+                        {entry.section_key && ` · ${sections.find((section) => section.key === entry.section_key)?.title ?? entry.section_key}`}
+                      </p>
+                      <p className="text-sm text-foreground whitespace-pre-wrap">{entry.comment_text}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {user ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="commentSection" className="shrink-0">On</Label>
+                    <Select value={commentSection} onValueChange={setCommentSection}>
+                      <SelectTrigger id="commentSection" className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={WHOLE_ANALYSIS}>The whole analysis</SelectItem>
+                        {sections.map((section) => (
+                          <SelectItem key={section.key} value={section.key}>{section.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Add a comment..."
+                    rows={3}
+                  />
+                  <Button onClick={postComment} disabled={saving || !comment.trim()}>
+                    Post Comment
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  <Link to={signInPath} className="text-primary underline">Sign in</Link> to comment.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {canEdit && shared.summary && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Transcript</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={transcript}
+                onChange={(e) => setTranscript(e.target.value)}
+                rows={16}
+                readOnly={!user}
+                className="font-mono text-sm"
+              />
+              {user ? (
+                <Button onClick={saveTranscript} disabled={saving} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  Save Transcript
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  <Link to={signInPath} className="text-primary underline">Sign in</Link> to correct the transcript.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { TemplateManager } from '@/components/TemplateManager';
+import { ArrowLeft } from 'lucide-react';
+
+export const Templates = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-card">
+        <div className="max-w-6xl mx-auto p-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/dashboard')}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <TemplateManager />
+      </div>
+    </div>
+  );
+};
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { AiProviderSettings } from '@/components/AiProviderSettings';
 import { 
   ArrowLeft, 
   Save, 
@@ -206,6 +207,7 @@ export const UserProfile = () => {
             <Button type="submit" className="px-8 py-3 text-base font-semibold">Save Changes</Button>
           </div>
         </form>
+        {user && <AiProviderSettings userId={user.id} />}
       </div>
     </div>
   );
@@ -0,0 +1,205 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatMessage, LlmProvider } from './llm/index.ts';
+import { describeIssues, describeSections, summarySchemaFor, TemplateSection, templateSections } from './summary-schema.ts';
+
+// Invalid output is sent back to the model with the validation errors this many times
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface AnalysisResult {
+  summaryContent: Record<string, unknown>;
+  // The sections the content was produced for, snapshotted with the summary
+  sections: TemplateSection[];
+  model: string;
+  processingTimeSeconds: number;
+}
+
+// The model kept returning output that does not match the summary schema.
+// Carries the last raw response so it can be stored for debugging.
+export class AnalysisOutputError extends Error {
+  constructor(message: string, public rawResponse: string, public model: string, public sections: TemplateSection[]) {
+    super(message);
+    this.name = 'AnalysisOutputError';
+  }
+}
+
+export interface TemplateSnapshot {
+  sections: TemplateSection[];
+  // The immutable version the sections come from; null for the default analysis
+  versionId: string | null;
+}
+
+// The sections of the chosen template's current version, or the default analysis without one
+export async function loadTemplate(
+  supabase: SupabaseClient,
+  templateId: string | null | undefined,
+  userId: string,
+): Promise<TemplateSnapshot> {
+  if (!templateId) return { sections: templateSections(null), versionId: null };
+
+  const { data: templateData } = await supabase
+    .from('summary_templates')
+    .select('template_content, version')
+    .eq('id', templateId)
+    // Public templates are offered to everyone in the template picker
+    .or(`user_id.eq.${userId},is_public.eq.true`)
+    .maybeSingle();
+
+  if (!templateData) {
+    throw new Error(`Template ${templateId} not found`);
+  }
+
+  const { data: versionData } = await supabase
+    .from('summary_template_versions')
+    .select('id')
+    .eq('template_id', templateId)
+    .eq('version', templateData.version)
+    .maybeSingle();
+
+  return {
+    sections: templateSections(templateData.template_content),
+    versionId: versionData?.id ?? null,
+  };
+}
+
+function parseResponse(raw: string, schema: ReturnType<typeof summarySchemaFor>) {
+  let parsed: unknown;
+  try {
+    // Tolerate a Markdown code fence around the JSON
+    parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (error) {
+    return { error: `the response is not valid JSON (${error instanceof Error ? error.message : error})` };
+  }
+
+  const result = schema.safeParse(parsed);
+  return result.success
+    ? { data: result.data as Record<string, unknown> }
+    : { error: describeIssues(result.error) };
+}
+
+export async function analyzeTranscript(llm: LlmProvider, transcript: string, sections: TemplateSection[]): Promise<AnalysisResult> {
+  const systemPrompt = `You are an expert hiring manager analyzing interview transcripts. Provide a structured analysis with the following sections:
+${describeSections(sections)}
+
+Return your response as a single JSON object with exactly these keys and no others.`;
+
+  const schema = summarySchemaFor(sections);
+  const startTime = Date.now();
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `Please analyze this interview transcript:\n\n${transcript}` }
+  ];
+
+  let lastResponse = '';
+  let lastModel = '';
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await llm.complete({
+      messages,
+      // Repairs should fix the output, not rewrite it
+      temperature: attempt === 0 ? 0.7 : 0,
+      maxTokens: 2000,
+      json: true,
+    });
+
+    // e.g. "anthropic/claude-3-5-haiku-20241022", so the vendor is on record too
+    lastModel = `${llm.name}/${completion.model}`;
+    lastResponse = completion.content;
+
+    const parsed = parseResponse(completion.content, schema);
+    if ('data' in parsed) {
+      return {
+        summaryContent: parsed.data,
+        sections,
+        model: lastModel,
+        processingTimeSeconds: Math.floor((Date.now() - startTime) / 1000),
+      };
+    }
+
+    lastError = parsed.error;
+    console.warn(`Invalid analysis output (attempt ${attempt + 1}): ${lastError}`);
+
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: `That response could not be used because ${lastError}. Reply again with only the corrected JSON object.` },
+    );
+  }
+
+  throw new AnalysisOutputError(
+    `The AI returned an invalid analysis ${MAX_REPAIR_ATTEMPTS + 1} times: ${lastError}`,
+    lastResponse,
+    lastModel,
+    sections,
+  );
+}
+
+export async function saveSummary(
+  supabase: SupabaseClient,
+  params: {
+    interviewId: string;
+    templateId: string | null | undefined;
+    templateVersionId: string | null;
+    transcript: string;
+    result: AnalysisResult;
+    audioSegmentsProcessed?: number | null;
+  },
+) {
+  const { data: summary, error: summaryError } = await supabase
+    .from('interview_summaries')
+    .insert({
+      interview_id: params.interviewId,
+      template_id: params.templateId ?? null,
+      template_version_id: params.templateVersionId,
+      summary_content: params.result.summaryContent,
+      template_sections: params.result.sections,
+      processing_time_seconds: params.result.processingTimeSeconds,
+      ai_model_used: params.result.model,
+      transcript_text: params.transcript,
+      audio_segments_processed: params.audioSegmentsProcessed ?? null
+    })
+    .select()
+    .single();
+
+  if (summaryError) {
+    console.error('Error saving summary:', summaryError);
+    throw summaryError;
+  }
+
+  return summary;
+}
+
+// Records an analysis that could not be produced, keeping the model's raw output
+export async function saveFailedSummary(
+  supabase: SupabaseClient,
+  params: {
+    interviewId: string;
+    templateId: string | null | undefined;
+    templateVersionId: string | null;
+    transcript: string;
+    error: AnalysisOutputError;
+  },
+) {
+  const { data: summary, error: summaryError } = await supabase
+    .from('interview_summaries')
+    .insert({
+      interview_id: params.interviewId,
+      template_id: params.templateId ?? null,
+      template_version_id: params.templateVersionId,
+      status: 'failed',
+      error_message: params.error.message,
+      raw_response: params.error.rawResponse,
+      template_sections: params.error.sections,
+      ai_model_used: params.error.model,
+      transcript_text: params.transcript
+    })
+    .select()
+    .single();
+
+  if (summaryError) {
+    console.error('Error saving failed summary:', summaryError);
+    throw summaryError;
+  }
+
+  return summary;
+}
@@ -0,0 +1,170 @@
+import { AudioObject, AudioSource, fetchAudioRange } from './storage.ts';
+
+// Providers reject uploads over 25 MB; leave headroom for the multipart envelope
+export const MAX_SEGMENT_BYTES = 24 * 1024 * 1024;
+
+// Consecutive segments share this much audio so no word is lost at a cut
+const OVERLAP_SECONDS = 15;
+// Frame-based formats carry no duration up front; assume a generous bitrate
+// (320 kbps) so the overlap covers at least OVERLAP_SECONDS of speech.
+const FRAME_OVERLAP_BYTES = (320_000 / 8) * OVERLAP_SECONDS;
+
+export interface AudioSegment {
+  index: number;
+  // Byte range [start, end) of the source recording
+  start: number;
+  end: number;
+  // Audio bytes preceding this segment, used to place its timestamps in the recording
+  audioOffset: number;
+  // Bytes of audio per second, when the container states it (WAV)
+  byteRate?: number;
+  // Container header to prepend (WAV segments need their own RIFF header)
+  header?: Uint8Array;
+}
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() || '';
+
+// MP3 and ADTS AAC are sequences of self-synchronising frames, so a decoder can
+// start at any byte offset. Other containers keep an index that a cut destroys.
+const FRAME_BASED_EXTENSIONS = ['mp3', 'aac'];
+
+function byteRanges(dataStart: number, dataEnd: number, maxBytes: number, overlapBytes: number, align = 1) {
+  const ranges: Array<[number, number]> = [];
+  const length = Math.floor(maxBytes / align) * align;
+  const step = Math.floor((maxBytes - overlapBytes) / align) * align;
+
+  for (let start = dataStart; start < dataEnd; start += step) {
+    const end = Math.min(start + length, dataEnd);
+    ranges.push([start, end]);
+    if (end === dataEnd) break;
+  }
+
+  return ranges;
+}
+
+interface WavFormat {
+  formatChunk: Uint8Array;
+  byteRate: number;
+  blockAlign: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+async function readWavFormat(source: AudioSource): Promise<WavFormat> {
+  const headerBytes = new Uint8Array(await new Response(await fetchAudioRange(source, 0, Math.min(source.size, 65536))).arrayBuffer());
+  const view = new DataView(headerBytes.buffer);
+  const tag = (offset: number) => String.fromCharCode(...headerBytes.slice(offset, offset + 4));
+
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Unrecognised WAV file');
+  }
+
+  let formatChunk: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= headerBytes.length) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (chunkId === 'fmt ') {
+      formatChunk = headerBytes.slice(offset, offset + 8 + chunkSize);
+    } else if (chunkId === 'data') {
+      if (!formatChunk) break;
+      const formatView = new DataView(formatChunk.buffer);
+      return {
+        formatChunk,
+        byteRate: formatView.getUint32(16, true),
+        blockAlign: formatView.getUint16(20, true),
+        dataStart: offset + 8,
+        dataEnd: Math.min(offset + 8 + chunkSize, source.size),
+      };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Could not locate the audio data in this WAV file');
+}
+
+function wavHeader(formatChunk: Uint8Array, dataLength: number) {
+  const header = new Uint8Array(12 + formatChunk.length + 8);
+  const view = new DataView(header.buffer);
+  const write = (offset: number, text: string) => header.set(new TextEncoder().encode(text), offset);
+
+  write(0, 'RIFF');
+  view.setUint32(4, header.length - 8 + dataLength, true);
+  write(8, 'WAVE');
+  header.set(formatChunk, 12);
+  write(12 + formatChunk.length, 'data');
+  view.setUint32(16 + formatChunk.length, dataLength, true);
+
+  return header;
+}
+
+// Splits a recording into overlapping segments that each fit the provider limit
+export async function planSegments(source: AudioSource): Promise<AudioSegment[]> {
+  if (source.size <= MAX_SEGMENT_BYTES) {
+    return [{ index: 0, start: 0, end: source.size, audioOffset: 0 }];
+  }
+
+  const extension = extensionOf(source.fileName);
+
+  if (extension === 'wav') {
+    const format = await readWavFormat(source);
+    const maxDataBytes = MAX_SEGMENT_BYTES - wavHeader(format.formatChunk, 0).length;
+    const overlapBytes = Math.floor((format.byteRate * OVERLAP_SECONDS) / format.blockAlign) * format.blockAlign;
+
+    return byteRanges(format.dataStart, format.dataEnd, maxDataBytes, overlapBytes, format.blockAlign)
+      .map(([start, end], index) => ({
+        index,
+        start,
+        end,
+        audioOffset: start - format.dataStart,
+        byteRate: format.byteRate,
+        header: wavHeader(format.formatChunk, end - start),
+      }));
+  }
+
+  if (FRAME_BASED_EXTENSIONS.includes(extension)) {
+    return byteRanges(0, source.size, MAX_SEGMENT_BYTES, FRAME_OVERLAP_BYTES)
+      .map(([start, end], index) => ({ index, start, end, audioOffset: start }));
+  }
+
+  throw new Error(
+    `Recordings larger than ${MAX_SEGMENT_BYTES / (1024 * 1024)} MB must be MP3, AAC or WAV to be transcribed in segments; ` +
+    `.${extension} files of this size are not supported yet`
+  );
+}
+
+export async function openSegment(source: AudioSource, segment: AudioSegment, segmentCount: number): Promise<AudioObject> {
+  const body = await fetchAudioRange(source, segment.start, segment.end);
+  const length = segment.end - segment.start;
+
+  const fileName = segmentCount > 1
+    ? source.fileName.replace(/(\.[^.]+)?$/, (extension) => `.part${segment.index + 1}${extension}`)
+    : source.fileName;
+
+  if (!segment.header) {
+    return { body, size: length, contentType: source.contentType, fileName };
+  }
+
+  const header = segment.header;
+  const reader = body.getReader();
+  return {
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(header);
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      cancel(reason) {
+        reader.cancel(reason);
+      },
+    }),
+    size: header.length + length,
+    contentType: source.contentType,
+    fileName,
+  };
+}
@@ -0,0 +1,54 @@
+import { LlmProvider } from './types.ts';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires an explicit output limit
+const DEFAULT_MAX_TOKENS = 4096;
+
+export function anthropicProvider(model: string): LlmProvider {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  if (!apiKey) throw new Error('Anthropic is not configured (ANTHROPIC_API_KEY is missing)');
+
+  return {
+    name: 'anthropic',
+    complete: async (request) => {
+      // System prompts are a top-level field rather than a message
+      const system = request.messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+      const messages = request.messages.filter((m) => m.role !== 'system');
+
+      // No native JSON mode: ask for it and prefill the opening brace
+      if (request.json) {
+        messages.push({ role: 'assistant', content: '{' });
+      }
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          system: request.json ? `${system}\n\nRespond with a single JSON object and nothing else.` : system,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Anthropic API error:', errorText);
+        throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const text = data.content
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+
+      return { content: request.json ? `{${text}` : text, model: data.model || model };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { chatCompletion } from './openai.ts';
+import { LlmProvider } from './types.ts';
+
+const DEFAULT_API_VERSION = '2024-06-01';
+
+// Azure addresses models by deployment name; the workspace's model is the deployment
+export function azureOpenAiProvider(deployment: string): LlmProvider {
+  const endpoint = Deno.env.get('AZURE_OPENAI_ENDPOINT');
+  const apiKey = Deno.env.get('AZURE_OPENAI_API_KEY');
+  if (!endpoint || !apiKey) {
+    throw new Error('Azure OpenAI is not configured (AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are required)');
+  }
+
+  const apiVersion = Deno.env.get('AZURE_OPENAI_API_VERSION') || DEFAULT_API_VERSION;
+  const url = `${endpoint.replace(/\/$/, '')}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`;
+
+  return {
+    name: 'azure-openai',
+    complete: async (request) => {
+      const result = await chatCompletion(url, { 'api-key': apiKey }, undefined, request, 'Azure OpenAI');
+      // Azure reports the underlying model; keep the deployment so it can be traced back
+      return { ...result, model: `${deployment} (${result.model})` };
+    },
+  };
+}
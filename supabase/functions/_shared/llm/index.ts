@@ -0,0 +1,91 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { anthropicProvider } from './anthropic.ts';
+import { azureOpenAiProvider } from './azure-openai.ts';
+import { openAiCompatibleProvider } from './openai-compatible.ts';
+import { openAiProvider } from './openai.ts';
+import { MOCK_MODEL, mockProvider } from './mock.ts';
+import { isMockEnabled } from '../mock/scenarios.ts';
+import { LlmConfig, LlmProvider, ProviderName } from './types.ts';
+
+export type { ChatMessage, CompletionRequest, CompletionResult, LlmConfig, LlmProvider, ProviderName } from './types.ts';
+
+const PROVIDERS: Record<ProviderName, (model: string) => LlmProvider> = {
+  'openai': openAiProvider,
+  'azure-openai': azureOpenAiProvider,
+  'anthropic': anthropicProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'mock': mockProvider,
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  'openai': 'gpt-4o-mini',
+  'azure-openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  'mock': MOCK_MODEL,
+};
+
+const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// Deployment-wide default, overridable per workspace
+function defaultConfig(): LlmConfig {
+  const provider = Deno.env.get('AI_PROVIDER');
+  const resolved = isProviderName(provider) ? provider : 'openai';
+  return { provider: resolved, model: Deno.env.get('AI_MODEL') || DEFAULT_MODELS[resolved] };
+}
+
+// The provider and model chosen in the user's workspace settings
+export async function loadLlmConfig(supabase: SupabaseClient, userId: string): Promise<LlmConfig> {
+  // Offline mode overrides every workspace so nothing leaves the machine
+  if (isMockEnabled()) {
+    return { provider: 'mock', model: MOCK_MODEL };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('ai_provider, ai_model')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!isProviderName(profile?.ai_provider)) {
+    return defaultConfig();
+  }
+
+  return {
+    provider: profile.ai_provider,
+    model: profile.ai_model || DEFAULT_MODELS[profile.ai_provider],
+  };
+}
+
+export function createProvider(config: LlmConfig): LlmProvider {
+  return PROVIDERS[config.provider](config.model);
+}
+
+// The user's provider and model, or a one-off choice (e.g. when regenerating an
+// analysis); a model without a provider runs on the user's provider
+export async function providerForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  override: { provider?: string | null; model?: string | null } = {},
+): Promise<LlmProvider> {
+  const config = await loadLlmConfig(supabase, userId);
+
+  // Offline mode ignores one-off choices too
+  if (config.provider === 'mock' || (!override.provider && !override.model)) {
+    return createProvider(config);
+  }
+
+  let provider = config.provider;
+  if (override.provider) {
+    if (!isProviderName(override.provider)) {
+      throw new Error(`Unknown AI provider: ${override.provider}`);
+    }
+    provider = override.provider;
+  }
+
+  return createProvider({
+    provider,
+    model: override.model || (provider === config.provider ? config.model : DEFAULT_MODELS[provider]),
+  });
+}
@@ -0,0 +1,55 @@
+import { MOCK_MALFORMED_JSON, MOCK_SUMMARY } from '../mock/fixtures.ts';
+import { playScenario } from '../mock/scenarios.ts';
+import { LlmProvider } from './types.ts';
+
+export const MOCK_MODEL = 'mock-analysis-v1';
+
+// Section lines of the analysis prompt: - "key" (type): Title. ... Format: ...
+const SECTION_LINE = /^- "([^"]+)" \((\w+)\): (.*)$/gm;
+
+// Fills every section the prompt asks for, using the fixture summary where the
+// key matches and placeholder content of the right type elsewhere
+function mockAnalysis(systemPrompt: string) {
+  return Object.fromEntries(Array.from(systemPrompt.matchAll(SECTION_LINE), ([, key, type, rest]) => {
+    if (key in MOCK_SUMMARY) return [key, MOCK_SUMMARY[key as keyof typeof MOCK_SUMMARY]];
+
+    const title = rest.split('.')[0];
+    switch (type) {
+      case 'bullet_list':
+        return [key, [`${title}: first point from the mock interview`, `${title}: second point`]];
+      case 'rating':
+        return [key, { score: 4, rationale: `Mock rating for ${title}.` }];
+      case 'table': {
+        const columns = Array.from(rest.split('Format:').pop()!.matchAll(/"([^"]+)"/g), ([, column]) => column);
+        return [key, [Object.fromEntries(columns.map((column) => [column, `Mock ${column}`]))]];
+      }
+      default:
+        return [key, `Mock ${title.toLowerCase()} for the fixture interview.`];
+    }
+  }));
+}
+
+// Answers the two kinds of prompts the pipeline sends: speaker labelling
+// (numbered lines in, one speaker per line out) and interview analysis.
+export function mockProvider(): LlmProvider {
+  return {
+    name: 'mock',
+    complete: async (request) => {
+      const scenario = await playScenario('analysis', 'Mock provider');
+      const prompt = request.messages[request.messages.length - 1]?.content ?? '';
+
+      if (prompt.includes('Label these lines:')) {
+        const lineCount = prompt.split('Label these lines:')[1].match(/^\d+\. /gm)?.length ?? 0;
+        // The fixture conversation alternates speakers line by line
+        const speakers = Array.from({ length: lineCount }, (_, index) => (index % 2) + 1);
+        return { content: JSON.stringify({ speakers }), model: MOCK_MODEL };
+      }
+
+      const systemPrompt = request.messages.find((message) => message.role === 'system')?.content ?? '';
+      return {
+        content: scenario === 'malformed_json' ? MOCK_MALFORMED_JSON : JSON.stringify(mockAnalysis(systemPrompt)),
+        model: MOCK_MODEL,
+      };
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { chatCompletion } from './openai.ts';
+import { LlmProvider } from './types.ts';
+
+// Any server exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...)
+export function openAiCompatibleProvider(model: string): LlmProvider {
+  const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+  if (!baseUrl) {
+    throw new Error('The OpenAI-compatible endpoint is not configured (OPENAI_COMPATIBLE_BASE_URL is missing)');
+  }
+
+  const apiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY');
+
+  return {
+    name: 'openai-compatible',
+    complete: (request) => chatCompletion(
+      `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      model,
+      request,
+      'OpenAI-compatible endpoint',
+    ),
+  };
+}
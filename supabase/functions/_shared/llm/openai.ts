@@ -0,0 +1,50 @@
+import { CompletionRequest, CompletionResult, LlmProvider } from './types.ts';
+
+// Request/response shape shared by OpenAI, Azure OpenAI and OpenAI-compatible servers
+export async function chatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  model: string | undefined,
+  request: CompletionRequest,
+  providerLabel: string,
+): Promise<CompletionResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...(model ? { model } : {}),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${providerLabel} API error:`, errorText);
+    throw new Error(`${providerLabel} API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices[0].message.content,
+    model: data.model || model || 'unknown',
+  };
+}
+
+export function openAiProvider(model: string): LlmProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new Error('OpenAI is not configured (OPENAI_API_KEY is missing)');
+
+  return {
+    name: 'openai',
+    complete: (request) => chatCompletion(
+      'https://api.openai.com/v1/chat/completions',
+      { 'Authorization': `Bearer ${apiKey}` },
+      model,
+      request,
+      'OpenAI',
+    ),
+  };
+}
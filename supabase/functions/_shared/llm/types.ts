@@ -0,0 +1,31 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object back (native JSON mode where the provider has one)
+  json?: boolean;
+}
+
+export interface CompletionResult {
+  content: string;
+  // The model that actually produced the answer, as reported by the provider
+  model: string;
+}
+
+export interface LlmProvider {
+  name: ProviderName;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// 'mock' is only available through AI_PROVIDER=mock (see ../mock/scenarios.ts)
+export type ProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface LlmConfig {
+  provider: ProviderName;
+  model: string;
+}
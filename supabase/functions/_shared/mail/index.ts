@@ -0,0 +1,26 @@
+import { resendProvider } from './resend.ts';
+import { smtpProvider } from './smtp.ts';
+import { MailProvider, MailProviderName } from './types.ts';
+
+export type { MailMessage, MailProvider, MailProviderName } from './types.ts';
+
+const PROVIDERS: Record<MailProviderName, (from: string) => MailProvider> = {
+  'smtp': smtpProvider,
+  'resend': resendProvider,
+};
+
+const DEFAULT_FROM = 'RecruiterLab <no-reply@recruiterlab.local>';
+
+const isProviderName = (value: unknown): value is MailProviderName =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// Chosen per deployment with MAIL_PROVIDER; SMTP (the local mail catcher unless
+// configured otherwise) when it is not set. A misspelt provider is an error
+// rather than mail quietly going to the local catcher.
+export function createMailProvider(): MailProvider {
+  const provider = Deno.env.get('MAIL_PROVIDER') || 'smtp';
+  if (!isProviderName(provider)) {
+    throw new Error(`Unknown MAIL_PROVIDER: ${provider}`);
+  }
+  return PROVIDERS[provider](Deno.env.get('MAIL_FROM') || DEFAULT_FROM);
+}
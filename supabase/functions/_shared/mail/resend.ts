@@ -0,0 +1,32 @@
+import { MailProvider } from './types.ts';
+
+export function resendProvider(from: string): MailProvider {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  if (!apiKey) throw new Error('Resend is not configured (RESEND_API_KEY is missing)');
+
+  return {
+    name: 'resend',
+    send: async (message) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          reply_to: message.replyTo,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Resend error: ${response.status} - ${errorText}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { MailProvider } from './types.ts';
+
+// Defaults to the Inbucket mail catcher started by `supabase start`, as seen
+// from the edge runtime container
+const DEFAULT_HOST = 'host.docker.internal';
+const DEFAULT_PORT = 54325;
+
+export function smtpProvider(from: string): MailProvider {
+  const hostname = Deno.env.get('SMTP_HOST') || DEFAULT_HOST;
+  const port = Number(Deno.env.get('SMTP_PORT')) || DEFAULT_PORT;
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  // Implicit TLS (usually port 465); plain connections still upgrade with STARTTLS when offered
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls,
+          auth: username && password ? { username, password } : undefined,
+        },
+        // Only the local mail catcher, which has neither TLS nor authentication,
+        // may be reached in plain text; credentials are never sent unencrypted
+        debug: { allowUnsecure: !tls && !username && !password },
+      });
+
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+}
+
+export interface MailProvider {
+  name: MailProviderName;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailProviderName = 'smtp' | 'resend';
@@ -0,0 +1,36 @@
+// Canned data for the mock provider: a short recruiter / hiring manager sync,
+// alternating speakers line by line, and an analysis of it in the default
+// summary shape.
+
+export const MOCK_TRANSCRIPT_LINES = [
+  "Thanks for making time. Let's start with why this role is open.",
+  "Sure. We're growing the platform team and need a senior backend engineer to own our billing services.",
+  "What does the first six months look like for this person?",
+  "Migrating billing off the monolith, then leading the on-call rotation for those services.",
+  "Which skills are non-negotiable?",
+  "Strong Go or Java, production experience with Postgres, and having run services at scale. Kubernetes is a plus.",
+  "How about salary? Is the range we discussed still right?",
+  "Yes, one-sixty to one-ninety base, and we can stretch for someone who has led a migration before.",
+  "Any concerns from the last search?",
+  "Candidates underestimated the on-call load. I'd rather be upfront about it in the job description.",
+  "Great. I'll send a recap and a draft posting by Friday.",
+  "Perfect, thanks.",
+];
+
+// Seconds of audio per line, used to lay the fixture out on a timeline
+export const MOCK_LINE_SECONDS = 6;
+
+export const MOCK_SUMMARY = {
+  jobSummary: 'Senior backend engineer on the growing platform team, owning billing services and their migration off the monolith.',
+  mustHaves: [
+    'Strong Go or Java',
+    'Production experience with Postgres',
+    'Has run services at scale',
+  ],
+  challenges: 'Previous candidates underestimated the on-call load; be explicit about it early.',
+  jobDescription: 'Mention the billing migration, the on-call rotation and Kubernetes as a plus. Base salary $160k-$190k.',
+  recapEmail: 'Hi, thanks for the sync today. Recap: senior backend engineer for billing, Go/Java + Postgres required, $160k-$190k base. Draft posting to follow by Friday.',
+};
+
+// What a model cut off mid-answer looks like
+export const MOCK_MALFORMED_JSON = '{"jobSummary": "Senior backend engineer on the platform team", "mustHaves": ["Strong Go or Java", "Post';
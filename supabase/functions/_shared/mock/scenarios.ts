@@ -0,0 +1,39 @@
+// Offline mode for demos and local regression runs: with AI_PROVIDER=mock every
+// transcription and LLM call is answered from fixtures instead of the network.
+// Failures can be rehearsed per stage:
+//   MOCK_TRANSCRIPTION_SCENARIO / MOCK_AI_SCENARIO = success | timeout | malformed_json | rate_limit
+
+export type MockScenario = 'success' | 'timeout' | 'malformed_json' | 'rate_limit';
+
+export type MockStage = 'transcription' | 'analysis';
+
+const SCENARIOS: MockScenario[] = ['success', 'timeout', 'malformed_json', 'rate_limit'];
+
+// How long a mocked call "takes", so progress UIs have something to show
+const DEFAULT_LATENCY_MS = 1500;
+
+export const isMockEnabled = () => Deno.env.get('AI_PROVIDER') === 'mock';
+
+export function scenarioFor(stage: MockStage): MockScenario {
+  const value = Deno.env.get(stage === 'transcription' ? 'MOCK_TRANSCRIPTION_SCENARIO' : 'MOCK_AI_SCENARIO');
+  return SCENARIOS.find((scenario) => scenario === value) ?? 'success';
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits like a real call would, then raises the scenario's failure (if it is one
+// that fails at the transport level) with the same message shape as the real adapters
+export async function playScenario(stage: MockStage, providerLabel: string): Promise<MockScenario> {
+  const scenario = scenarioFor(stage);
+  await delay(Number(Deno.env.get('MOCK_AI_LATENCY_MS') ?? DEFAULT_LATENCY_MS));
+
+  if (scenario === 'timeout') {
+    throw new Error(`${providerLabel} request timed out (mock scenario)`);
+  }
+
+  if (scenario === 'rate_limit') {
+    throw new Error(`${providerLabel} API error: 429 Too Many Requests (mock scenario)`);
+  }
+
+  return scenario;
+}
@@ -0,0 +1,30 @@
+import { AudioObject } from '../storage.ts';
+import type { SegmentTranscript } from '../transcription.ts';
+import { MOCK_LINE_SECONDS, MOCK_TRANSCRIPT_LINES } from './fixtures.ts';
+import { playScenario } from './scenarios.ts';
+
+// Stands in for Whisper: always returns the fixture conversation, whatever the audio
+export async function mockTranscribe(audio: AudioObject): Promise<SegmentTranscript> {
+  // Nothing reads the audio, so release the storage download
+  await audio.body.cancel();
+
+  const scenario = await playScenario('transcription', 'OpenAI');
+  if (scenario === 'malformed_json') {
+    throw new Error('Unexpected response from OpenAI: Unexpected end of JSON input (mock scenario)');
+  }
+
+  const segments = MOCK_TRANSCRIPT_LINES.map((text, index) => ({
+    start: index * MOCK_LINE_SECONDS,
+    end: (index + 1) * MOCK_LINE_SECONDS,
+    text,
+    confidence: 0.9,
+  }));
+
+  console.log(`Mock transcription of ${audio.fileName}: ${segments.length} segments`);
+
+  return {
+    text: MOCK_TRANSCRIPT_LINES.join(' '),
+    duration: MOCK_TRANSCRIPT_LINES.length * MOCK_LINE_SECONDS,
+    segments,
+  };
+}
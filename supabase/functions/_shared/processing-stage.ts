@@ -0,0 +1,45 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Where an interview is in the pipeline; the app follows interviews.processing_stage
+// over Realtime. 'uploading' and 'uploaded' are set by the app itself.
+export type ProcessingStage = 'uploading' | 'uploaded' | 'transcribing' | 'analyzing' | 'saving' | 'completed' | 'failed';
+
+// Records a stage transition, keeping the coarse interviews.status in step
+export async function setProcessingStage(
+  supabase: SupabaseClient,
+  interviewId: string,
+  stage: ProcessingStage,
+  error: string | null = null,
+) {
+  const { error: updateError } = await supabase
+    .from('interviews')
+    .update({
+      status: stage === 'completed' || stage === 'failed' ? stage : 'processing',
+      processing_stage: stage,
+      processing_error: error,
+      processing_stage_at: new Date().toISOString(),
+    })
+    .eq('id', interviewId);
+
+  // Progress reporting must never fail the work itself
+  if (updateError) {
+    console.error(`Failed to record stage ${stage} for interview ${interviewId}:`, updateError);
+  }
+}
+
+// Records a failed run. An interview that already has a completed analysis stays
+// completed, so a failed re-run is reported only on the request, job or summary
+// version that failed.
+export async function failProcessingStage(supabase: SupabaseClient, interviewId: string, error: string) {
+  const { count } = await supabase
+    .from('interview_summaries')
+    .select('id', { count: 'exact', head: true })
+    .eq('interview_id', interviewId)
+    .eq('status', 'completed');
+
+  if (count) {
+    await setProcessingStage(supabase, interviewId, 'completed');
+  } else {
+    await setProcessingStage(supabase, interviewId, 'failed', error);
+  }
+}
@@ -0,0 +1,107 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { TimedSegment } from './transcription.ts';
+import { LlmProvider } from './llm/index.ts';
+
+// Segments sent per request, plus already-labelled ones repeated as context so
+// speaker numbers stay consistent from one batch to the next
+const BATCH_SIZE = 150;
+const CONTEXT_SEGMENTS = 12;
+
+export const speakerId = (index: number) => `Speaker ${index}`;
+
+async function labelBatch(llm: LlmProvider, batch: TimedSegment[], context: TimedSegment[]): Promise<number[]> {
+  const contextLines = context.map((segment) => `[${segment.speaker}] ${segment.text}`).join('\n');
+  const lines = batch.map((segment, index) => `${index + 1}. ${segment.text}`).join('\n');
+
+  const completion = await llm.complete({
+    temperature: 0,
+    json: true,
+    messages: [
+      {
+        role: 'system',
+        content: `You split interview transcripts into speaker turns. The conversation is usually between a recruiter and a hiring manager, sometimes with more people.
+Number speakers 1, 2, 3... in order of first appearance and keep the numbers consistent with any lines already labelled.
+Use questions and answers, forms of address and changes of topic to decide who is talking.
+Respond with JSON: {"speakers": [<speaker number for line 1>, <for line 2>, ...]} with exactly one number per numbered line.`,
+      },
+      {
+        role: 'user',
+        content: `${contextLines ? `Already labelled:\n${contextLines}\n\n` : ''}Label these lines:\n${lines}`,
+      },
+    ],
+  });
+
+  const speakers = JSON.parse(completion.content).speakers;
+
+  if (!Array.isArray(speakers) || speakers.length !== batch.length || !speakers.every(Number.isInteger)) {
+    throw new Error('Speaker labels did not match the transcript segments');
+  }
+
+  return speakers;
+}
+
+// Detects speaker turns in a transcript and labels each segment "Speaker N".
+// Diarization is best-effort: on failure the transcript is kept unlabelled
+// rather than failing the whole transcription.
+export async function labelSpeakers(llm: LlmProvider, segments: TimedSegment[]): Promise<TimedSegment[]> {
+  // Imported captions may already name their speakers
+  if (segments.length === 0 || segments.some((segment) => segment.speaker)) {
+    return segments;
+  }
+
+  try {
+    const labelled: TimedSegment[] = [];
+
+    for (let start = 0; start < segments.length; start += BATCH_SIZE) {
+      const batch = segments.slice(start, start + BATCH_SIZE);
+      const speakers = await labelBatch(llm, batch, labelled.slice(-CONTEXT_SEGMENTS));
+      labelled.push(...batch.map((segment, index) => ({ ...segment, speaker: speakerId(speakers[index]) })));
+    }
+
+    console.log(`Labelled ${labelled.length} segments with ${new Set(labelled.map((s) => s.speaker)).size} speaker(s)`);
+    return labelled;
+  } catch (error) {
+    console.error('Speaker diarization failed, keeping transcript unlabelled:', error);
+    return segments;
+  }
+}
+
+// The transcript to analyse: speaker turns with the names the user gave them
+// (e.g. "Dana, Eng Manager: ...") when the interview has labelled segments,
+// otherwise the plain transcript text.
+export async function loadSpeakerTranscript(supabase: SupabaseClient, interviewId: string, plainTranscript: string) {
+  const [{ data: segments }, { data: interview }] = await Promise.all([
+    supabase
+      .from('transcript_segments')
+      .select('text, speaker')
+      .eq('interview_id', interviewId)
+      .order('segment_index', { ascending: true }),
+    supabase
+      .from('interviews')
+      .select('speaker_labels')
+      .eq('id', interviewId)
+      .single(),
+  ]);
+
+  if (!segments?.length || !segments.some((segment) => segment.speaker)) {
+    return plainTranscript;
+  }
+
+  const labels: Record<string, string> = interview?.speaker_labels || {};
+  const nameOf = (speaker: string | null) => (speaker && labels[speaker]?.trim()) || speaker || 'Unknown speaker';
+
+  // Merge consecutive segments from the same speaker into one turn
+  const turns: Array<{ speaker: string; text: string }> = [];
+  for (const segment of segments) {
+    const speaker = nameOf(segment.speaker);
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker, text: segment.text });
+    }
+  }
+
+  const names = [...new Set(turns.map((turn) => turn.speaker))];
+  return `Speakers: ${names.join('; ')}\n\n${turns.map((turn) => `${turn.speaker}: ${turn.text}`).join('\n\n')}`;
+}
@@ -0,0 +1,74 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const AUDIO_BUCKET = 'interview-audio';
+
+// Signed URLs handed to fetch() only need to outlive a single transcription run
+const SIGNED_URL_TTL_SECONDS = 1800;
+
+// A recording in the bucket, readable (in byte ranges) through a signed URL
+export interface AudioSource {
+  url: string;
+  size: number;
+  contentType: string;
+  fileName: string;
+}
+
+// A stream of audio ready to be sent to a transcription provider
+export interface AudioObject {
+  body: ReadableStream<Uint8Array>;
+  size: number;
+  contentType: string;
+  fileName: string;
+}
+
+// Fetches bytes [start, end) of the recording without buffering them in memory
+export async function fetchAudioRange(source: AudioSource, start: number, end: number) {
+  const response = await fetch(source.url, {
+    headers: { Range: `bytes=${start}-${end - 1}` },
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to read audio bytes ${start}-${end}: ${response.statusText}`);
+  }
+
+  return response.body;
+}
+
+// Locates the interview's uploaded recording. Uses a short-lived signed URL so
+// the service role can read any object and ranges can be requested directly.
+export async function openInterviewAudio(
+  supabase: SupabaseClient,
+  interview: { id: string; file_name: string; storage_path: string | null },
+): Promise<AudioSource> {
+  if (!interview.storage_path) {
+    throw new Error(`Interview ${interview.id} has no uploaded file`);
+  }
+
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .createSignedUrl(interview.storage_path, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Failed to access audio for interview ${interview.id}: ${error?.message}`);
+  }
+
+  // A one-byte range request reports the full object size in Content-Range
+  const probe = await fetch(data.signedUrl, { headers: { Range: 'bytes=0-0' } });
+  await probe.body?.cancel();
+
+  if (!probe.ok) {
+    throw new Error(`Failed to download audio for interview ${interview.id}: ${probe.statusText}`);
+  }
+
+  const contentRange = probe.headers.get('content-range');
+  const size = contentRange
+    ? Number(contentRange.split('/')[1])
+    : Number(probe.headers.get('content-length'));
+
+  return {
+    url: data.signedUrl,
+    size,
+    contentType: probe.headers.get('content-type') || 'application/octet-stream',
+    fileName: interview.file_name,
+  };
+}
@@ -0,0 +1,147 @@
+import { z } from 'https://esm.sh/zod@4';
+
+// Templates (summary_templates.template_content.sections) declare the sections
+// an analysis must contain; interview_summaries.summary_content is validated
+// against a schema built from them. Mirrored for the frontend in
+// src/lib/summary-schema.ts; keep the two in step.
+
+export const SECTION_TYPES = ['text', 'bullet_list', 'rating', 'table'] as const;
+export type SectionType = typeof SECTION_TYPES[number];
+
+// Ratings are whole numbers from 1 to RATING_SCALE
+export const RATING_SCALE = 5;
+
+export const templateSectionSchema = z.object({
+  key: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'must start with a letter and contain only letters, digits and underscores'),
+  title: z.string().min(1),
+  type: z.enum(SECTION_TYPES).default('text'),
+  required: z.boolean().default(true),
+  // Extra guidance for the model about what belongs in this section
+  instructions: z.string().optional(),
+  // Words for text and ratings' rationale, items for bullet lists, rows for tables
+  maxLength: z.number().int().positive().optional(),
+  columns: z.array(z.string().min(1)).optional(),
+}).refine((section) => section.type !== 'table' || (section.columns?.length ?? 0) > 0, {
+  message: 'table sections need at least one column',
+  path: ['columns'],
+});
+
+export type TemplateSection = z.infer<typeof templateSectionSchema>;
+
+const templateContentSchema = z.object({
+  sections: z.array(templateSectionSchema).min(1),
+}).refine((content) => new Set(content.sections.map((section) => section.key)).size === content.sections.length, {
+  message: 'section keys must be unique',
+  path: ['sections'],
+});
+
+// The analysis produced when no template is chosen
+export const DEFAULT_SECTIONS: TemplateSection[] = [
+  { key: 'jobSummary', title: 'Job Summary', type: 'text', required: true, instructions: 'Brief overview of the role and key requirements' },
+  { key: 'mustHaves', title: 'Top 5 Must-Haves', type: 'bullet_list', required: true, instructions: 'Critical skills and qualifications mentioned', maxLength: 5 },
+  { key: 'challenges', title: 'Challenges/Concerns', type: 'text', required: true, instructions: 'Potential concerns or red flags identified' },
+  { key: 'jobDescription', title: 'Job Description Draft', type: 'text', required: true, instructions: 'Suggested improvements to the job posting' },
+  { key: 'recapEmail', title: 'Hiring Manager Recap Email + Scorecard', type: 'text', required: true, instructions: 'Draft follow-up email to the hiring manager' },
+];
+
+// Readable list of what is wrong with a response, fed back to the model when repairing it
+export function describeIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) => `${issue.path.length ? issue.path.join('.') : 'response'}: ${issue.message}`)
+    .join('; ');
+}
+
+// The sections a template declares, or the default analysis when there is no template
+export function templateSections(templateContent: unknown): TemplateSection[] {
+  if (!templateContent) return DEFAULT_SECTIONS;
+
+  const result = templateContentSchema.safeParse(templateContent);
+  if (!result.success) {
+    throw new Error(`The analysis template is invalid: ${describeIssues(result.error)}`);
+  }
+  return result.data.sections;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const text = (maxWords?: number) => {
+  const schema = z.string().trim().min(1);
+  return maxWords
+    ? schema.refine((value) => countWords(value) <= maxWords, { message: `must be at most ${maxWords} words` })
+    : schema;
+};
+
+// Models sometimes answer a list with one bulleted string; accept that and split it
+const stringList = (maxItems?: number) => z.preprocess(
+  (value) => typeof value === 'string'
+    ? value.split(/\n+/).map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean)
+    : value,
+  maxItems
+    ? z.array(z.string().min(1)).min(1).max(maxItems)
+    : z.array(z.string().min(1)).min(1),
+);
+
+// A bare number is accepted as the score on its own
+const rating = (maxWords?: number) => z.preprocess(
+  (value) => typeof value === 'number' || typeof value === 'string' ? { score: value } : value,
+  z.object({
+    score: z.coerce.number().int().min(1).max(RATING_SCALE),
+    rationale: maxWords ? text(maxWords).optional() : z.string().optional(),
+  }),
+);
+
+// Cells are kept as text whatever JSON type the model used
+const cell = z.preprocess((value) => value === null || value === undefined ? '' : String(value), z.string());
+
+const table = (columns: string[], maxRows?: number) => {
+  const rows = z.array(z.object(Object.fromEntries(columns.map((column) => [column, cell]))));
+  return maxRows ? rows.min(1).max(maxRows) : rows.min(1);
+};
+
+function sectionSchema(section: TemplateSection) {
+  switch (section.type) {
+    case 'bullet_list':
+      return stringList(section.maxLength);
+    case 'rating':
+      return rating(section.maxLength);
+    case 'table':
+      return table(section.columns ?? [], section.maxLength);
+    default:
+      return text(section.maxLength);
+  }
+}
+
+// Exactly the declared keys: unknown keys are dropped, optional sections may be null
+export function summarySchemaFor(sections: TemplateSection[]) {
+  return z.object(Object.fromEntries(sections.map((section) => [
+    section.key,
+    section.required ? sectionSchema(section) : sectionSchema(section).nullish().transform((value) => value ?? null),
+  ])));
+}
+
+function sectionFormat(section: TemplateSection) {
+  const limit = section.maxLength;
+  switch (section.type) {
+    case 'bullet_list':
+      return `JSON array of strings${limit ? `, at most ${limit} items` : ''}`;
+    case 'rating':
+      return `JSON object {"score": integer from 1 to ${RATING_SCALE}, "rationale": string${limit ? ` of at most ${limit} words` : ''}}`;
+    case 'table':
+      return `JSON array of row objects, each with the string keys ${(section.columns ?? []).map((column) => JSON.stringify(column)).join(', ')}${limit ? `; at most ${limit} rows` : ''}`;
+    default:
+      return `string${limit ? ` of at most ${limit} words` : ''}`;
+  }
+}
+
+// One line per section for the system prompt, e.g.
+// - "mustHaves" (bullet_list): Top 5 Must-Haves. Critical skills ... Format: JSON array of strings, at most 5 items.
+export function describeSections(sections: TemplateSection[]) {
+  return sections
+    .map((section) => [
+      `- "${section.key}" (${section.type}): ${section.title}.`,
+      section.instructions ? ` ${section.instructions.trim().replace(/\.?$/, '.')}` : '',
+      ` Format: ${sectionFormat(section)}.`,
+      section.required ? '' : ' Use null if the interview does not cover it.',
+    ].join(''))
+    .join('\n');
+}
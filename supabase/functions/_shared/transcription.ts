@@ -0,0 +1,262 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AudioObject, AudioSource } from './storage.ts';
+import { AudioSegment, openSegment, planSegments } from './audio-segments.ts';
+import { isMockEnabled } from './mock/scenarios.ts';
+import { mockTranscribe } from './mock/transcription.ts';
+
+const encoder = new TextEncoder();
+
+// Builds a multipart/form-data body that streams the audio through instead of
+// materialising the whole file. Content-Length is computed up front so the
+// provider receives a regular (non-chunked) request.
+function multipartStream(fields: Record<string, string>, audio: AudioObject) {
+  const boundary = `----interview-audio-${crypto.randomUUID()}`;
+
+  const fieldParts = Object.entries(fields)
+    .map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`)
+    .join('');
+  const fileName = audio.fileName.replace(/"/g, '');
+  const head = encoder.encode(
+    `${fieldParts}--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${fileName}"\r\nContent-Type: ${audio.contentType}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const reader = audio.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.enqueue(tail);
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      reader.cancel(reason);
+    },
+  });
+
+  return {
+    body,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.byteLength + audio.size + tail.byteLength,
+  };
+}
+
+// A stretch of speech with its position (in seconds) in the audio it came from
+export interface TimedSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null;
+  speaker?: string | null;
+}
+
+// The provider's transcript of one audio segment; timestamps are relative to that segment
+export interface SegmentTranscript {
+  text: string;
+  duration: number;
+  segments: TimedSegment[];
+}
+
+interface WhisperVerboseResponse {
+  text: string;
+  duration: number;
+  segments?: Array<{ start: number; end: number; text: string; avg_logprob?: number }>;
+}
+
+// Speech-to-text for a single provider-sized piece of audio (OpenAI Whisper)
+async function transcribeObject(audio: AudioObject): Promise<SegmentTranscript> {
+  if (isMockEnabled()) {
+    return mockTranscribe(audio);
+  }
+
+  const multipart = multipartStream({
+    model: 'whisper-1',
+    language: 'en',
+    response_format: 'verbose_json',
+    'timestamp_granularities[]': 'segment',
+  }, audio);
+
+  console.log(`Streaming ${audio.fileName} to OpenAI Whisper, size:`, audio.size);
+
+  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+      'Content-Type': multipart.contentType,
+      'Content-Length': String(multipart.contentLength),
+    },
+    body: multipart.body,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('OpenAI API error:', errorText);
+    throw new Error(`OpenAI API error: ${errorText}`);
+  }
+
+  const result: WhisperVerboseResponse = await response.json();
+  console.log('Received transcription from OpenAI, length:', result.text.length);
+
+  return {
+    text: result.text.trim(),
+    duration: result.duration,
+    segments: (result.segments || [])
+      .map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+        // avg_logprob is the mean token log-probability; exp() turns it into a 0-1 score
+        confidence: segment.avg_logprob === undefined ? null : Math.min(1, Math.exp(segment.avg_logprob)),
+      }))
+      .filter((segment) => segment.text.length > 0),
+  };
+}
+
+// How far into each neighbour to look for the words both segments transcribed
+const SEAM_WINDOW_WORDS = 250;
+// Shorter common runs are too likely to be coincidence ("and I think")
+const MIN_SEAM_MATCH_WORDS = 4;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Joins two transcripts of overlapping audio. The overlap was transcribed twice,
+// so find the longest run of words the end of `previous` shares with the start
+// of `next` and splice there; the words on either side of the cut point (often
+// half-heard) are dropped along with the duplicate.
+export function stitchTranscripts(previous: string, next: string): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+  if (previousWords.length === 0) return nextWords.join(' ');
+  if (nextWords.length === 0) return previousWords.join(' ');
+
+  const tailOffset = Math.max(0, previousWords.length - SEAM_WINDOW_WORDS);
+  const tail = previousWords.slice(tailOffset).map(normalizeWord);
+  const head = nextWords.slice(0, SEAM_WINDOW_WORDS).map(normalizeWord);
+
+  // Longest common run of words (dynamic programming over the two windows)
+  let best = { length: 0, tailEnd: 0, headEnd: 0 };
+  let previousRow = new Array(head.length + 1).fill(0);
+  for (let i = 1; i <= tail.length; i++) {
+    const row = new Array(head.length + 1).fill(0);
+    for (let j = 1; j <= head.length; j++) {
+      if (tail[i - 1] && tail[i - 1] === head[j - 1]) {
+        row[j] = previousRow[j - 1] + 1;
+        if (row[j] > best.length) best = { length: row[j], tailEnd: i, headEnd: j };
+      }
+    }
+    previousRow = row;
+  }
+
+  if (best.length < MIN_SEAM_MATCH_WORDS) {
+    return [...previousWords, ...nextWords].join(' ');
+  }
+
+  return [
+    ...previousWords.slice(0, tailOffset + best.tailEnd),
+    ...nextWords.slice(best.headEnd),
+  ].join(' ');
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segmentCount: number;
+  // Timestamped segments across the whole recording
+  segments: TimedSegment[];
+}
+
+interface TranscribeRecordingOptions {
+  // Segment transcripts already produced by an earlier, interrupted run
+  completedSegments?: Array<SegmentTranscript | null>;
+  onSegmentTranscribed?: (segments: Array<SegmentTranscript | null>, segmentCount: number) => Promise<void>;
+}
+
+// Lays the per-segment timestamps out on the recording's timeline. Each audio
+// segment starts at its byte offset converted to seconds (exact for WAV; for
+// frame-based formats the bitrate is estimated from the first segment), and
+// speech inside an overlap is kept from whichever segment is nearer its middle.
+function mergeTimelines(audioSegments: AudioSegment[], transcripts: SegmentTranscript[]): TimedSegment[] {
+  const first = audioSegments[0];
+  const estimatedByteRate = transcripts[0].duration > 0 ? (first.end - first.start) / transcripts[0].duration : 0;
+  const offsets = audioSegments.map((segment) => {
+    const byteRate = segment.byteRate ?? estimatedByteRate;
+    return byteRate > 0 ? segment.audioOffset / byteRate : 0;
+  });
+  const seams = offsets.slice(1).map((offset, index) => (offset + offsets[index] + transcripts[index].duration) / 2);
+
+  return transcripts.flatMap((transcript, index) => transcript.segments
+    .map((segment) => ({ ...segment, start: segment.start + offsets[index], end: segment.end + offsets[index] }))
+    .filter((segment) =>
+      (index === 0 || segment.start >= seams[index - 1]) &&
+      (index === seams.length || segment.start < seams[index])
+    ));
+}
+
+// Transcribes a whole recording, splitting it into overlapping segments when it
+// is larger than the provider accepts and stitching the results back together.
+export async function transcribeRecording(
+  source: AudioSource,
+  { completedSegments = [], onSegmentTranscribed }: TranscribeRecordingOptions = {},
+): Promise<TranscriptionResult> {
+  const audioSegments = await planSegments(source);
+  const transcripts: Array<SegmentTranscript | null> = audioSegments.map((segment) => completedSegments[segment.index] ?? null);
+
+  console.log(`Transcribing ${source.fileName} in ${audioSegments.length} segment(s)`);
+
+  for (const segment of audioSegments) {
+    if (transcripts[segment.index] !== null) continue;
+
+    transcripts[segment.index] = await transcribeObject(await openSegment(source, segment, audioSegments.length));
+    await onSegmentTranscribed?.(transcripts, audioSegments.length);
+  }
+
+  const completed = transcripts as SegmentTranscript[];
+  const text = completed.reduce((combined, transcript) => stitchTranscripts(combined, transcript.text), '');
+
+  if (text.trim().length === 0) {
+    throw new Error('No transcription received from OpenAI');
+  }
+
+  return {
+    text,
+    segmentCount: audioSegments.length,
+    segments: mergeTimelines(audioSegments, completed),
+  };
+}
+
+// Replaces the interview's timestamped transcript segments
+export async function saveTranscriptSegments(supabase: SupabaseClient, interviewId: string, segments: TimedSegment[]) {
+  const { error: deleteError } = await supabase
+    .from('transcript_segments')
+    .delete()
+    .eq('interview_id', interviewId);
+
+  if (deleteError) {
+    console.error('Error clearing transcript segments:', deleteError);
+    throw deleteError;
+  }
+
+  if (segments.length === 0) return;
+
+  const { error } = await supabase
+    .from('transcript_segments')
+    .insert(segments.map((segment, index) => ({
+      interview_id: interviewId,
+      segment_index: index,
+      start_seconds: Math.round(segment.start * 1000) / 1000,
+      end_seconds: Math.round(segment.end * 1000) / 1000,
+      text: segment.text,
+      confidence: segment.confidence,
+      speaker: segment.speaker ?? null,
+    })));
+
+  if (error) {
+    console.error('Error saving transcript segments:', error);
+    throw error;
+  }
+}
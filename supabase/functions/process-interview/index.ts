@@ -1,27 +1,60 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { AnalysisOutputError, analyzeTranscript, loadTemplate, saveFailedSummary, saveSummary } from '../_shared/analysis.ts';
+import { loadSpeakerTranscript } from '../_shared/speakers.ts';
+import { providerForUser } from '../_shared/llm/index.ts';
+import { templateSections } from '../_shared/summary-schema.ts';
+import { failProcessingStage, setProcessingStage } from '../_shared/processing-stage.ts';
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+interface ProcessInterviewRequest {
+  // Optional for dry runs of a pasted transcript
+  interviewId?: string | null;
+  transcript: string;
+  templateId?: string | null;
+  // One-off provider/model, e.g. when regenerating; defaults to the workspace settings
+  provider?: string | null;
+  model?: string | null;
+  // Analyse `transcript` as given even when the interview has speaker-labelled
+  // segments, so edits to the transcript text are honoured
+  useTranscriptText?: boolean;
+  // Analyse and return the result without storing anything, e.g. to try out a template
+  dryRun?: boolean;
+  // Unsaved template content ({ sections }) to analyse with instead of templateId; dry runs only
+  templateContent?: unknown;
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Kept outside the try so a failed analysis can still be recorded against the interview
+  let request: ProcessInterviewRequest | null = null;
+  let templateVersionId: string | null = null;
+  // Whether the interview has been moved to the analyzing stage and so must not be left there
+  let stageStarted = false;
+
   try {
-    const { interviewId, transcript, templateId } = await req.json();
-    
+    const body: ProcessInterviewRequest = await req.json();
+    request = body;
+    const { interviewId, transcript, templateId, provider, model, useTranscriptText, dryRun, templateContent } = body;
+
+    if (!interviewId && !dryRun) {
+      throw new Error('interviewId is required');
+    }
+    // Stored analyses must point at a saved template version
+    if (templateContent !== undefined && !dryRun) {
+      throw new Error('templateContent can only be used for dry runs');
+    }
+
     // Create Supabase client with service role for database operations
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    
+
     // Get auth user from request
     const authHeader = req.headers.get('authorization');
     if (!authHeader) {
@@ -31,111 +64,70 @@ serve(async (req) => {
     // Verify the user's JWT and get user info
     const token = authHeader.replace('Bearer ', '');
     const { data: { user }, error: authError } = await supabase.auth.getUser(token);
-    
+
     if (authError || !user) {
       throw new Error('Invalid authorization');
     }
 
-    console.log(`Processing interview ${interviewId} for user ${user.id}`);
-
-    // Get template if specified
-    let template = null;
-    if (templateId) {
-      const { data: templateData } = await supabase
-        .from('summary_templates')
-        .select('template_content')
-        .eq('id', templateId)
+    // The service role bypasses RLS, so check the interview belongs to the caller
+    if (interviewId) {
+      const { data: ownedInterview } = await supabase
+        .from('interviews')
+        .select('id')
+        .eq('id', interviewId)
         .eq('user_id', user.id)
-        .single();
-      template = templateData?.template_content;
+        .maybeSingle();
+
+      if (!ownedInterview) {
+        throw new Error('Interview not found');
+      }
     }
 
-    // Create AI prompt based on template or default structure
-    const systemPrompt = template ? 
-      `You are an expert hiring manager analyzing interview transcripts. Use this template structure: ${JSON.stringify(template)}` :
-      `You are an expert hiring manager analyzing interview transcripts. Provide a structured analysis with the following sections:
-      1. Job Summary - Brief overview of the role and key requirements
-      2. Must-Haves - Critical skills and qualifications mentioned
-      3. Challenges - Potential concerns or red flags identified
-      4. Job Description - Suggested improvements to job posting
-      5. Recap Email - Draft follow-up email to candidate
-      
-      Return your response as a JSON object with these exact keys: jobSummary, mustHaves, challenges, jobDescription, recapEmail`;
-
-    const startTime = Date.now();
-
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Please analyze this interview transcript:\n\n${transcript}` }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
-    });
+    console.log(`${dryRun ? 'Dry run for' : 'Processing'} interview ${interviewId ?? '(pasted transcript)'} for user ${user.id}`);
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+    if (!dryRun) {
+      await setProcessingStage(supabase, interviewId!, 'analyzing');
+      stageStarted = true;
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices[0].message.content;
-
-    // Parse JSON response or structure it if plain text
-    let summaryContent;
-    try {
-      summaryContent = JSON.parse(aiResponse);
-    } catch {
-      // Fallback if not JSON format
-      summaryContent = {
-        jobSummary: aiResponse.substring(0, 500),
-        mustHaves: 'Please review the full analysis',
-        challenges: 'Please review the full analysis',
-        jobDescription: 'Please review the full analysis',
-        recapEmail: 'Please review the full analysis'
-      };
+    // Sections the analysis must produce: the draft being tried out, or the template if one was chosen
+    const template = templateContent !== undefined
+      ? { sections: templateSections(templateContent), versionId: null }
+      : await loadTemplate(supabase, templateId, user.id);
+    templateVersionId = template.versionId;
+
+    // Prefer the speaker-labelled transcript when the interview has one
+    const analysedTranscript = useTranscriptText || !interviewId
+      ? transcript
+      : await loadSpeakerTranscript(supabase, interviewId, transcript);
+    // Run the analysis with the provider and model chosen for the user's workspace
+    const llm = await providerForUser(supabase, user.id, { provider, model });
+    const result = await analyzeTranscript(llm, analysedTranscript, template.sections);
+
+    if (dryRun) {
+      return new Response(JSON.stringify({
+        success: true,
+        dryRun: true,
+        summary: result.summaryContent,
+        sections: result.sections,
+        model: result.model,
+        processingTimeSeconds: result.processingTimeSeconds
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    const processingTime = Math.floor((Date.now() - startTime) / 1000);
-
-    // Save summary to database
-    const { data: summary, error: summaryError } = await supabase
-      .from('interview_summaries')
-      .insert({
-        interview_id: interviewId,
-        template_id: templateId,
-        summary_content: summaryContent,
-        processing_time_seconds: processingTime,
-        ai_model_used: 'gpt-4o-mini',
-        transcript_text: transcript
-      })
-      .select()
-      .single();
-
-    if (summaryError) {
-      console.error('Error saving summary:', summaryError);
-      throw summaryError;
-    }
+    // Save summary to database; only dry runs may leave out the interview, as checked above
+    await setProcessingStage(supabase, interviewId!, 'saving');
+    const summary = await saveSummary(supabase, { interviewId: interviewId!, templateId, templateVersionId, transcript, result });
 
-    // Update interview status
-    await supabase
-      .from('interviews')
-      .update({ status: 'completed' })
-      .eq('id', interviewId);
+    await setProcessingStage(supabase, interviewId!, 'completed');
 
     console.log(`Successfully processed interview ${interviewId}`);
 
-    return new Response(JSON.stringify({ 
-      success: true, 
-      summary: summaryContent,
+    return new Response(JSON.stringify({
+      success: true,
+      summary: result.summaryContent,
       summaryId: summary.id
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -143,12 +135,52 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in process-interview function:', error);
-    return new Response(JSON.stringify({ 
+
+    // Dry runs store nothing, so hand back the unusable output for the author to inspect
+    if (error instanceof AnalysisOutputError && request?.dryRun) {
+      return new Response(JSON.stringify({
+        error: error.message,
+        rawResponse: error.rawResponse,
+        success: false
+      }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The AI kept returning unusable output: record a failed analysis rather than placeholder results
+    if (error instanceof AnalysisOutputError && request?.interviewId) {
+      const supabase = createClient(supabaseUrl, supabaseServiceKey);
+      const failed = await saveFailedSummary(supabase, {
+        interviewId: request.interviewId,
+        templateId: request.templateId,
+        templateVersionId,
+        transcript: request.transcript,
+        error,
+      });
+      await failProcessingStage(supabase, request.interviewId, error.message);
+
+      return new Response(JSON.stringify({
+        error: error.message,
+        summaryId: failed.id,
+        success: false
+      }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (stageStarted && request?.interviewId) {
+      const supabase = createClient(supabaseUrl, supabaseServiceKey);
+      await failProcessingStage(supabase, request.interviewId, error.message);
+    }
+
+    return new Response(JSON.stringify({
       error: error.message,
-      success: false 
+      success: false
     }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,241 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { openInterviewAudio } from '../_shared/storage.ts';
+import { SegmentTranscript, saveTranscriptSegments, transcribeRecording } from '../_shared/transcription.ts';
+import { AnalysisOutputError, analyzeTranscript, loadTemplate, saveFailedSummary, saveSummary } from '../_shared/analysis.ts';
+import { labelSpeakers, loadSpeakerTranscript } from '../_shared/speakers.ts';
+import { providerForUser } from '../_shared/llm/index.ts';
+import { failProcessingStage, setProcessingStage } from '../_shared/processing-stage.ts';
+
+// Background worker for the processing_jobs queue. Each invocation drains runnable
+// jobs until its time budget is spent; it is safe to invoke concurrently or on a
+// schedule because jobs are claimed with claim_processing_job (SKIP LOCKED), and
+// jobs abandoned by a crashed worker are reclaimed once their lock goes stale.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const WORKER_ID = crypto.randomUUID();
+const TIME_BUDGET_MS = 120_000;
+const LOCK_TIMEOUT_SECONDS = 600;
+const RETRY_DELAYS_SECONDS = [30, 120, 600];
+
+type JobStage = 'transcription' | 'analysis';
+
+interface ProcessingJob {
+  id: string;
+  interview_id: string;
+  user_id: string;
+  template_id: string | null;
+  stage: JobStage;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  transcript_text: string | null;
+  transcription_progress: TranscriptionProgress | null;
+  attempts: number;
+  max_attempts: number;
+  stage_history: StageHistoryEntry[];
+  started_at: string | null;
+}
+
+interface TranscriptionProgress {
+  total: number;
+  segments: Array<SegmentTranscript | null>;
+}
+
+interface StageHistoryEntry {
+  stage: JobStage;
+  status: 'completed' | 'failed' | 'retrying';
+  attempt: number;
+  error?: string;
+  finished_at: string;
+}
+
+const historyWith = (job: ProcessingJob, entry: Omit<StageHistoryEntry, 'stage' | 'attempt' | 'finished_at'>) => [
+  ...(job.stage_history || []),
+  { stage: job.stage, attempt: job.attempts, finished_at: new Date().toISOString(), ...entry },
+];
+
+async function claimJob(supabase: SupabaseClient): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc('claim_processing_job', {
+    p_worker_id: WORKER_ID,
+    p_lock_timeout_seconds: LOCK_TIMEOUT_SECONDS,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+async function runTranscription(supabase: SupabaseClient, job: ProcessingJob) {
+  const { data: interview, error } = await supabase
+    .from('interviews')
+    .select('id, file_name, storage_path')
+    .eq('id', job.interview_id)
+    .single();
+
+  if (error || !interview) {
+    throw new Error(`Interview ${job.interview_id} not found`);
+  }
+
+  const audio = await openInterviewAudio(supabase, interview);
+  const { text: transcript, segmentCount, segments } = await transcribeRecording(audio, {
+    completedSegments: job.transcription_progress?.segments,
+    // Checkpoint after every segment so a retry only transcribes what is missing
+    onSegmentTranscribed: async (completed, total) => {
+      await supabase
+        .from('processing_jobs')
+        .update({ transcription_progress: { total, segments: completed } })
+        .eq('id', job.id);
+    },
+  });
+
+  const llm = await providerForUser(supabase, job.user_id);
+  await saveTranscriptSegments(supabase, job.interview_id, await labelSpeakers(llm, segments));
+
+  // Hand off to the analysis stage; the transcript is persisted so a crash
+  // during analysis never repeats the (expensive) transcription.
+  await supabase
+    .from('processing_jobs')
+    .update({
+      stage: 'analysis',
+      status: 'queued',
+      transcript_text: transcript,
+      transcription_progress: { total: segmentCount, segments: [] },
+      attempts: 0,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      run_after: new Date().toISOString(),
+      stage_history: historyWith(job, { status: 'completed' }),
+    })
+    .eq('id', job.id);
+}
+
+async function runAnalysis(supabase: SupabaseClient, job: ProcessingJob) {
+  if (!job.transcript_text) {
+    throw new Error('No transcript available for analysis');
+  }
+
+  const template = await loadTemplate(supabase, job.template_id, job.user_id);
+  const transcript = await loadSpeakerTranscript(supabase, job.interview_id, job.transcript_text);
+  const llm = await providerForUser(supabase, job.user_id);
+
+  let result;
+  try {
+    result = await analyzeTranscript(llm, transcript, template.sections);
+  } catch (error) {
+    // The model already had its repair attempts; keep its output for debugging
+    if (error instanceof AnalysisOutputError) {
+      const failed = await saveFailedSummary(supabase, {
+        interviewId: job.interview_id,
+        templateId: job.template_id,
+        templateVersionId: template.versionId,
+        transcript: job.transcript_text,
+        error,
+      });
+      await supabase.from('processing_jobs').update({ summary_id: failed.id }).eq('id', job.id);
+    }
+    throw error;
+  }
+
+  await setProcessingStage(supabase, job.interview_id, 'saving');
+  const summary = await saveSummary(supabase, {
+    interviewId: job.interview_id,
+    templateId: job.template_id,
+    templateVersionId: template.versionId,
+    transcript: job.transcript_text,
+    result,
+    audioSegmentsProcessed: job.transcription_progress?.total,
+  });
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'completed',
+      summary_id: summary.id,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      completed_at: new Date().toISOString(),
+      stage_history: historyWith(job, { status: 'completed' }),
+    })
+    .eq('id', job.id);
+
+  await setProcessingStage(supabase, job.interview_id, 'completed');
+}
+
+async function failJob(supabase: SupabaseClient, job: ProcessingJob, message: string, retryable = true) {
+  const exhausted = !retryable || job.attempts >= job.max_attempts;
+  const retryDelay = RETRY_DELAYS_SECONDS[Math.min(job.attempts, RETRY_DELAYS_SECONDS.length) - 1];
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: exhausted ? 'failed' : 'queued',
+      last_error: message,
+      locked_at: null,
+      locked_by: null,
+      run_after: new Date(Date.now() + (exhausted ? 0 : retryDelay * 1000)).toISOString(),
+      completed_at: exhausted ? new Date().toISOString() : null,
+      stage_history: historyWith(job, { status: exhausted ? 'failed' : 'retrying', error: message }),
+    })
+    .eq('id', job.id);
+
+  if (exhausted) {
+    await failProcessingStage(supabase, job.interview_id, message);
+  }
+}
+
+async function processJob(supabase: SupabaseClient, job: ProcessingJob) {
+  console.log(`Worker ${WORKER_ID} running ${job.stage} for job ${job.id} (attempt ${job.attempts})`);
+
+  // A job reclaimed after a crash may already have used up its attempts
+  if (job.attempts > job.max_attempts) {
+    await failJob(supabase, { ...job, attempts: job.max_attempts }, 'Worker stopped responding while processing this stage');
+    return;
+  }
+
+  await setProcessingStage(supabase, job.interview_id, job.stage === 'transcription' ? 'transcribing' : 'analyzing');
+
+  try {
+    if (job.stage === 'transcription') {
+      await runTranscription(supabase, job);
+    } else {
+      await runAnalysis(supabase, job);
+    }
+  } catch (error) {
+    console.error(`Job ${job.id} failed during ${job.stage}:`, error);
+    // Invalid AI output has been through the repair loop; retrying the job would only repeat it
+    await failJob(supabase, job, error.message || 'An unexpected error occurred', !(error instanceof AnalysisOutputError));
+  }
+}
+
+async function drainQueue() {
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  while (Date.now() < deadline) {
+    const job = await claimJob(supabase);
+    if (!job) break;
+    await processJob(supabase, job);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Respond immediately; the queue is drained in the background
+  EdgeRuntime.waitUntil(
+    drainQueue().catch((error) => console.error('Error in process-jobs worker:', error))
+  );
+
+  return new Response(JSON.stringify({ success: true, workerId: WORKER_ID }), {
+    status: 202,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createMailProvider } from '../_shared/mail/index.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Links in invitations only ever point here, never at a host taken from the request
+const siteUrl = Deno.env.get('SITE_URL');
+
+const SCOPES = ['view', 'comment', 'edit'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface SendInviteRequest {
+  interviewId: string;
+  email: string;
+  message?: string | null;
+  // The widest permission granted: 'view', 'comment' or 'edit'
+  scope: string;
+  // null never expires
+  expiresInDays: number | null;
+}
+
+// A request the caller got wrong, answered with 400 rather than 500
+class InvalidRequestError extends Error {}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { interviewId, email, message, scope, expiresInDays }: SendInviteRequest = await req.json();
+    const recipient = email?.trim().toLowerCase();
+
+    if (!interviewId) {
+      throw new InvalidRequestError('interviewId is required');
+    }
+    if (!recipient || !EMAIL_PATTERN.test(recipient)) {
+      throw new InvalidRequestError('A valid email address is required');
+    }
+    if (!SCOPES.includes(scope)) {
+      throw new InvalidRequestError(`Unknown permission: ${scope}`);
+    }
+    if (expiresInDays !== null && !(Number.isInteger(expiresInDays) && expiresInDays > 0)) {
+      throw new InvalidRequestError('expiresInDays must be a positive whole number of days, or null');
+    }
+    if (!siteUrl) {
+      throw new Error('SITE_URL is not configured');
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get auth user from request
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    // Verify the user's JWT and get user info
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Invalid authorization');
+    }
+
+    // The service role bypasses RLS, so check the interview belongs to the caller
+    const { data: interview } = await supabase
+      .from('interviews')
+      .select('id, candidate_name, position_title')
+      .eq('id', interviewId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!interview) {
+      throw new Error('Interview not found');
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('full_name')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    // Scopes are cumulative, as on share links created in the app
+    const { data: link, error: linkError } = await supabase
+      .from('share_links')
+      .insert({
+        interview_id: interviewId,
+        created_by: user.id,
+        permissions: SCOPES.slice(0, SCOPES.indexOf(scope) + 1),
+        expires_at: expiresInDays === null
+          ? null
+          : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (linkError) throw linkError;
+
+    const { data: invitation, error: invitationError } = await supabase
+      .from('interview_invitations')
+      .insert({
+        interview_id: interviewId,
+        share_link_id: link.id,
+        invited_by: user.id,
+        email: recipient,
+        message: message?.trim() || null,
+      })
+      .select('id, token')
+      .single();
+
+    if (invitationError) {
+      await supabase.from('share_links').delete().eq('id', link.id);
+      throw invitationError;
+    }
+
+    const inviteUrl = `${siteUrl.replace(/\/$/, '')}/invite/${invitation.token}`;
+    const inviter = profile?.full_name || user.email || 'A colleague';
+    const subject = interview.candidate_name
+      ? `${inviter} shared the interview with ${interview.candidate_name}`
+      : `${inviter} shared an interview with you`;
+    const note = message?.trim();
+
+    try {
+      await createMailProvider().send({
+        to: recipient,
+        replyTo: user.email,
+        subject,
+        text: [
+          `${inviter} invited you to review an interview on RecruiterLab${interview.position_title ? ` for ${interview.position_title}` : ''}.`,
+          note ? `\n"${note}"\n` : '',
+          `Open it here (sign in or create an account with ${recipient}):`,
+          inviteUrl,
+        ].join('\n'),
+        html: `
+          <p>${escapeHtml(inviter)} invited you to review an interview on RecruiterLab${interview.position_title ? ` for ${escapeHtml(interview.position_title)}` : ''}.</p>
+          ${note ? `<blockquote>${escapeHtml(note).replace(/\n/g, '<br>')}</blockquote>` : ''}
+          <p><a href="${escapeHtml(inviteUrl)}">Open the interview</a></p>
+          <p>Sign in or create an account with ${escapeHtml(recipient)} to see it.</p>
+        `,
+      });
+    } catch (error) {
+      // Nothing was delivered, so drop the invitation rather than leave a dead one behind
+      await supabase.from('share_links').delete().eq('id', link.id);
+      throw new Error(`The invitation email could not be sent: ${error.message}`);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      invitationId: invitation.id,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in send-invite function:', error);
+
+    return new Response(JSON.stringify({
+      error: error.message,
+      success: false
+    }), {
+      status: error instanceof InvalidRequestError ? 400 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,41 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Process base64 in chunks to prevent memory issues
-function processBase64Chunks(base64String: string, chunkSize = 32768) {
-  const chunks: Uint8Array[] = [];
-  let position = 0;
-  
-  while (position < base64String.length) {
-    const chunk = base64String.slice(position, position + chunkSize);
-    const binaryChunk = atob(chunk);
-    const bytes = new Uint8Array(binaryChunk.length);
-    
-    for (let i = 0; i < binaryChunk.length; i++) {
-      bytes[i] = binaryChunk.charCodeAt(i);
-    }
-    
-    chunks.push(bytes);
-    position += chunkSize;
-  }
-
-  const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-
-  for (const chunk of chunks) {
-    result.set(chunk, offset);
-    offset += chunk.length;
-  }
-
-  return result;
-}
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { openInterviewAudio } from '../_shared/storage.ts';
+import { saveTranscriptSegments, transcribeRecording } from '../_shared/transcription.ts';
+import { labelSpeakers } from '../_shared/speakers.ts';
+import { providerForUser } from '../_shared/llm/index.ts';
+import { failProcessingStage, setProcessingStage } from '../_shared/processing-stage.ts';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -43,6 +14,9 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Set once the interview is known to be the caller's, so a failure can be recorded on it
+  let started: { supabase: SupabaseClient; interviewId: string } | null = null;
+
   try {
     // Get auth header and verify user
     const authHeader = req.headers.get('authorization');
@@ -65,13 +39,13 @@ serve(async (req) => {
 
     console.log('Processing audio transcription for user:', user.id);
 
-    const { interviewId, audioData } = await req.json();
+    const { interviewId } = await req.json();
     
-    if (!interviewId || !audioData) {
-      throw new Error('Missing interviewId or audioData');
+    if (!interviewId) {
+      throw new Error('Missing interviewId');
     }
 
-    console.log('Received audio data for interview:', interviewId);
+    console.log('Transcribing uploaded audio for interview:', interviewId);
 
     // Verify the interview belongs to the user
     const { data: interview, error: interviewError } = await supabase
@@ -85,75 +59,49 @@ serve(async (req) => {
       throw new Error('Interview not found or unauthorized');
     }
 
-    // Update interview status to processing
-    await supabase
-      .from('interviews')
-      .update({ status: 'processing' })
-      .eq('id', interviewId);
+    await setProcessingStage(supabase, interviewId, 'transcribing');
+    started = { supabase, interviewId };
 
     console.log('Updated interview status to processing');
 
-    // Process audio in chunks to prevent memory issues
-    const binaryAudio = processBase64Chunks(audioData);
-    console.log('Processed audio data, size:', binaryAudio.length);
-    
-    // Prepare form data for OpenAI
-    const formData = new FormData();
-    const blob = new Blob([binaryAudio], { type: 'audio/webm' }); // OpenAI Whisper accepts various formats
-    formData.append('file', blob, 'audio.webm');
-    formData.append('model', 'whisper-1');
-    formData.append('language', 'en');
-    formData.append('response_format', 'text');
-
-    console.log('Sending audio to OpenAI Whisper...');
-
-    // Send to OpenAI Whisper
-    const openAIResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-      },
-      body: formData,
-    });
-
-    if (!openAIResponse.ok) {
-      const errorText = await openAIResponse.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${errorText}`);
-    }
-
-    const transcriptionText = await openAIResponse.text();
-    console.log('Received transcription from OpenAI, length:', transcriptionText.length);
+    // Stream the recording from the storage bucket straight to the provider,
+    // in overlapping segments when it is over the provider's upload limit
+    const audio = await openInterviewAudio(supabase, interview);
+    const { text: transcriptionText, segmentCount, segments } = await transcribeRecording(audio);
+    const llm = await providerForUser(supabase, user.id);
+    await saveTranscriptSegments(supabase, interviewId, await labelSpeakers(llm, segments));
+
+    // Queue the analysis instead of running it inside this request
+    console.log('Queueing transcript for AI analysis...');
+
+    const { data: job, error: jobError } = await supabase
+      .from('processing_jobs')
+      .insert({
+        interview_id: interviewId,
+        user_id: user.id,
+        stage: 'analysis',
+        transcript_text: transcriptionText,
+        transcription_progress: { total: segmentCount, segments: [] },
+      })
+      .select('id')
+      .single();
 
-    if (!transcriptionText || transcriptionText.trim().length === 0) {
-      throw new Error('No transcription received from OpenAI');
+    if (jobError || !job) {
+      console.error('Error queueing analysis job:', jobError);
+      throw new Error('Failed to queue transcript for analysis');
     }
 
-    // Now process the transcript with the existing process-interview function
-    console.log('Processing transcript with AI analysis...');
-    
-    const processResponse = await supabase.functions.invoke('process-interview', {
-      body: {
-        interviewId,
-        transcript: transcriptionText,
-      },
-      headers: {
-        Authorization: authHeader,
-      },
-    });
-
-    if (processResponse.error) {
-      console.error('Error processing interview:', processResponse.error);
-      throw new Error('Failed to process transcript');
-    }
+    await supabase.functions.invoke('process-jobs');
 
-    console.log('Successfully completed audio transcription and analysis');
+    console.log('Successfully transcribed audio, analysis job queued:', job.id);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         transcription: transcriptionText,
-        message: 'Audio transcribed and analyzed successfully' 
+        segmentsProcessed: segmentCount,
+        jobId: job.id,
+        message: 'Audio transcribed, analysis queued' 
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -163,6 +111,10 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in transcribe-audio function:', error);
+
+    if (started) {
+      await failProcessingStage(started.supabase, started.interviewId, error.message || 'Transcription failed');
+    }
     
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,88 @@
+-- Durable background job queue for interview processing
+
+-- Processing jobs table: one row per interview run, advanced stage by stage by the process-jobs worker
+CREATE TABLE public.processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID REFERENCES public.interviews(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  template_id UUID REFERENCES public.summary_templates(id) ON DELETE SET NULL,
+  stage TEXT NOT NULL DEFAULT 'transcription' CHECK (stage IN ('transcription', 'analysis')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  transcript_text TEXT, -- output of the transcription stage, or the uploaded transcript for text files
+  summary_id UUID REFERENCES public.interview_summaries(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0, -- claims of the current stage
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  stage_history JSONB NOT NULL DEFAULT '[]'::jsonb, -- e.g. [{ "stage": "transcription", "status": "completed", ... }]
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on processing_jobs
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for processing_jobs (workers use the service role and bypass RLS)
+CREATE POLICY "Users can view their own processing jobs"
+ON public.processing_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can enqueue processing jobs for their interviews"
+ON public.processing_jobs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = processing_jobs.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_processing_jobs_claimable ON public.processing_jobs(status, run_after);
+CREATE INDEX idx_processing_jobs_interview_id ON public.processing_jobs(interview_id, created_at DESC);
+
+CREATE TRIGGER update_processing_jobs_updated_at
+  BEFORE UPDATE ON public.processing_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomically claim the next runnable job. Jobs left 'running' by a worker that
+-- crashed or timed out are reclaimed once their lock is older than the timeout.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(
+  p_worker_id TEXT,
+  p_lock_timeout_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET
+    status = 'running',
+    locked_at = now(),
+    locked_by = p_worker_id,
+    attempts = processing_jobs.attempts + 1,
+    started_at = COALESCE(processing_jobs.started_at, now())
+  WHERE processing_jobs.id = (
+    SELECT candidate.id FROM public.processing_jobs AS candidate
+    WHERE (candidate.status = 'queued' AND candidate.run_after <= now())
+       OR (candidate.status = 'running' AND candidate.locked_at < now() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY candidate.run_after, candidate.created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING processing_jobs.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_job(TEXT, INTEGER) TO service_role;
@@ -0,0 +1,10 @@
+-- Segmented transcription for recordings larger than the provider upload limit
+
+-- Number of audio segments the transcript was stitched from (1 for short recordings)
+ALTER TABLE public.interview_summaries
+ADD COLUMN audio_segments_processed INTEGER;
+
+-- Per-segment checkpoint so a retried transcription resumes where it stopped,
+-- e.g. { "total": 3, "segments": ["...", "...", null] }
+ALTER TABLE public.processing_jobs
+ADD COLUMN transcription_progress JSONB;
@@ -0,0 +1,33 @@
+-- Timestamped transcript segments
+
+-- Transcript segments table: the transcript of an interview recording split into
+-- timed stretches of speech, in playback order
+CREATE TABLE public.transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID REFERENCES public.interviews(id) ON DELETE CASCADE NOT NULL,
+  segment_index INTEGER NOT NULL,
+  start_seconds NUMERIC(10,3) NOT NULL,
+  end_seconds NUMERIC(10,3) NOT NULL,
+  text TEXT NOT NULL,
+  speaker TEXT,
+  confidence REAL CHECK (confidence >= 0 AND confidence <= 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (interview_id, segment_index)
+);
+
+-- Enable RLS on transcript_segments
+ALTER TABLE public.transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for transcript_segments (written by the transcription functions using the service role)
+CREATE POLICY "Users can view segments of their interviews"
+ON public.transcript_segments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = transcript_segments.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_transcript_segments_interview_id ON public.transcript_segments(interview_id, start_seconds);
@@ -0,0 +1,6 @@
+-- Editable speaker labels
+
+-- Display names for the detected speakers of an interview, keyed by the label
+-- stored on transcript_segments.speaker, e.g. { "Speaker 1": "Dana, Eng Manager" }
+ALTER TABLE public.interviews
+ADD COLUMN speaker_labels JSONB NOT NULL DEFAULT '{}'::jsonb;
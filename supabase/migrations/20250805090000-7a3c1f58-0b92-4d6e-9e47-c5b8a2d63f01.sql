@@ -0,0 +1,13 @@
+-- Imported meeting transcripts (VTT, SRT, Zoom, Teams) keep their cue timestamps
+
+-- Allow users to store the segments of transcripts they import for their interviews
+CREATE POLICY "Users can add segments to their interviews"
+ON public.transcript_segments
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = transcript_segments.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
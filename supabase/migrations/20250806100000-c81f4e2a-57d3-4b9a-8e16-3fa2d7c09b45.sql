@@ -0,0 +1,6 @@
+-- Per-workspace choice of AI provider and model for interview analysis
+
+-- NULL means the deployment default (AI_PROVIDER / AI_MODEL secrets on the edge functions)
+ALTER TABLE public.user_profiles
+ADD COLUMN ai_provider TEXT CHECK (ai_provider IN ('openai', 'azure-openai', 'anthropic', 'openai-compatible')),
+ADD COLUMN ai_model TEXT;
@@ -0,0 +1,8 @@
+-- Schema-validated analysis output
+
+-- Analyses that could not be produced are kept as failed rows with the model's
+-- raw output, instead of placeholder content that looks like a real result
+ALTER TABLE public.interview_summaries
+ADD COLUMN status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'failed')),
+ADD COLUMN raw_response TEXT,
+ADD COLUMN error_message TEXT;
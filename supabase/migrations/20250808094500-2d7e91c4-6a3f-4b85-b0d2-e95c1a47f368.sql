@@ -0,0 +1,6 @@
+-- Template-driven analysis sections
+
+-- Snapshot of the sections (key, title, type, instructions, limits) an analysis
+-- was produced for, so it renders the same after its template is edited or deleted
+ALTER TABLE public.interview_summaries
+ADD COLUMN template_sections JSONB;
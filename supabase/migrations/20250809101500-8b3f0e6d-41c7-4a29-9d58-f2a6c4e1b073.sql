@@ -0,0 +1,44 @@
+-- Default analysis templates for the upload flow
+
+-- Template preselected for every new interview; NULL means the built-in analysis
+ALTER TABLE public.user_profiles
+ADD COLUMN default_template_id UUID REFERENCES public.summary_templates(id) ON DELETE SET NULL;
+
+-- Per-position defaults, which take precedence over the user's default template.
+-- position_key is the normalized position title (trimmed, lower case, single spaces).
+CREATE TABLE public.position_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  position_key TEXT NOT NULL,
+  template_id UUID REFERENCES public.summary_templates(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, position_key)
+);
+
+-- Enable RLS on position_templates
+ALTER TABLE public.position_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own position templates"
+ON public.position_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own position templates"
+ON public.position_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own position templates"
+ON public.position_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own position templates"
+ON public.position_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_position_templates_updated_at
+  BEFORE UPDATE ON public.position_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
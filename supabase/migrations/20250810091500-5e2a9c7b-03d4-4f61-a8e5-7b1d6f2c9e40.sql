@@ -0,0 +1,52 @@
+-- Summary versions: every analysis of an interview is kept and numbered
+
+ALTER TABLE public.interview_summaries
+ADD COLUMN version INTEGER;
+
+-- Number existing analyses per interview in the order they were produced
+UPDATE public.interview_summaries AS summaries
+SET version = numbered.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY interview_id ORDER BY created_at, id) AS version
+  FROM public.interview_summaries
+) AS numbered
+WHERE summaries.id = numbered.id;
+
+ALTER TABLE public.interview_summaries
+ALTER COLUMN version SET NOT NULL;
+
+CREATE UNIQUE INDEX idx_interview_summaries_version ON public.interview_summaries(interview_id, version);
+
+-- New analyses take the next version number of their interview. The interview
+-- row is locked so concurrent regenerations cannot pick the same number.
+CREATE OR REPLACE FUNCTION public.assign_summary_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.interviews WHERE id = NEW.interview_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.interview_summaries
+  WHERE interview_id = NEW.interview_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_interview_summaries_version
+  BEFORE INSERT ON public.interview_summaries
+  FOR EACH ROW EXECUTE FUNCTION public.assign_summary_version();
+
+-- Transcript edits are saved on the analysis they were made from
+CREATE POLICY "Users can update summaries for their own interviews"
+ON public.interview_summaries
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = interview_summaries.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
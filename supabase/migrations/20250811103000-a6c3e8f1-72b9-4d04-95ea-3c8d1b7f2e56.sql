@@ -0,0 +1,146 @@
+-- Immutable template versions
+
+-- Current version number of each template, bumped whenever its content changes
+ALTER TABLE public.summary_templates
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- One row per saved state of a template. Rows are only ever written by the
+-- trigger below, so an analysis can always point at exactly what it used.
+CREATE TABLE public.summary_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.summary_templates(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT,
+  template_content JSONB,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_name TEXT, -- snapshot of the author's name (never their email), as other users' profiles are not readable
+  restored_from_version INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+-- Enable RLS on summary_template_versions
+ALTER TABLE public.summary_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can see the template; there are no write policies
+CREATE POLICY "Users can view versions of templates they can see"
+ON public.summary_template_versions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.summary_templates
+    WHERE summary_templates.id = summary_template_versions.template_id
+    AND (summary_templates.user_id = auth.uid() OR summary_templates.is_public = TRUE)
+  )
+);
+
+-- Analyses record the exact template version they were produced with
+ALTER TABLE public.interview_summaries
+ADD COLUMN template_version_id UUID REFERENCES public.summary_template_versions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.bump_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.template_content IS DISTINCT FROM OLD.template_content THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.summary_template_versions (
+      template_id, version, name, description, category, template_content, changed_by, changed_by_name
+    )
+    VALUES (
+      NEW.id, NEW.version, NEW.name, NEW.description, NEW.category, NEW.template_content,
+      auth.uid(),
+      -- Name only: public templates' history is readable by everyone. Sign-up
+      -- falls back to the email as full_name, so that counts as no name.
+      (SELECT NULLIF(full_name, email) FROM public.user_profiles WHERE user_id = auth.uid())
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_summary_templates_version
+  BEFORE UPDATE ON public.summary_templates
+  FOR EACH ROW EXECUTE FUNCTION public.bump_template_version();
+
+CREATE TRIGGER record_summary_templates_version
+  AFTER INSERT OR UPDATE ON public.summary_templates
+  FOR EACH ROW EXECUTE FUNCTION public.record_template_version();
+
+-- Existing templates start their history at version 1
+INSERT INTO public.summary_template_versions (
+  template_id, version, name, description, category, template_content, changed_by, changed_by_name, created_at
+)
+SELECT
+  templates.id, 1, templates.name, templates.description, templates.category, templates.template_content,
+  templates.user_id, NULLIF(profiles.full_name, profiles.email), templates.updated_at
+FROM public.summary_templates AS templates
+LEFT JOIN public.user_profiles AS profiles ON profiles.user_id = templates.user_id;
+
+-- Makes an earlier version current again. The restore is itself a new version,
+-- so history is never rewritten; restoring what is already current is a no-op.
+CREATE OR REPLACE FUNCTION public.restore_template_version(p_version_id UUID)
+RETURNS public.summary_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  restored public.summary_template_versions;
+  template public.summary_templates;
+  previous_version INTEGER;
+BEGIN
+  SELECT * INTO restored FROM public.summary_template_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template version not found';
+  END IF;
+
+  SELECT version INTO previous_version FROM public.summary_templates WHERE id = restored.template_id;
+
+  UPDATE public.summary_templates
+  SET
+    name = restored.name,
+    description = restored.description,
+    category = restored.category,
+    template_content = restored.template_content
+  WHERE id = restored.template_id
+  AND user_id = auth.uid()
+  RETURNING * INTO template;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the owner of a template can restore its versions';
+  END IF;
+
+  UPDATE public.summary_template_versions
+  SET restored_from_version = restored.version
+  WHERE template_id = template.id
+  AND version = template.version
+  AND version > previous_version;
+
+  RETURN template;
+END;
+$$;
+
+CREATE INDEX idx_interview_summaries_template_version_id ON public.interview_summaries(template_version_id);
@@ -0,0 +1,142 @@
+-- Public template gallery: forks, stars and ratings
+
+-- The public template a template was copied from, if any
+ALTER TABLE public.summary_templates
+ADD COLUMN forked_from_id UUID REFERENCES public.summary_templates(id) ON DELETE SET NULL;
+
+-- Templates a user has starred to find them again in the gallery
+CREATE TABLE public.template_stars (
+  template_id UUID REFERENCES public.summary_templates(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (template_id, user_id)
+);
+
+-- One 1-5 rating per user and template
+CREATE TABLE public.template_ratings (
+  template_id UUID REFERENCES public.summary_templates(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (template_id, user_id)
+);
+
+-- Enable RLS on template_stars
+ALTER TABLE public.template_stars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stars"
+ON public.template_stars
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can star public templates"
+ON public.template_stars
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.summary_templates
+    WHERE summary_templates.id = template_stars.template_id
+    AND summary_templates.is_public = TRUE
+  )
+);
+
+CREATE POLICY "Users can remove their own stars"
+ON public.template_stars
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Enable RLS on template_ratings
+ALTER TABLE public.template_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Averages are read through get_template_gallery, so only own ratings are visible
+CREATE POLICY "Users can view their own ratings"
+ON public.template_ratings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rate public templates"
+ON public.template_ratings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.summary_templates
+    WHERE summary_templates.id = template_ratings.template_id
+    AND summary_templates.is_public = TRUE
+  )
+);
+
+CREATE POLICY "Users can update their own ratings"
+ON public.template_ratings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own ratings"
+ON public.template_ratings
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_template_ratings_updated_at
+  BEFORE UPDATE ON public.template_ratings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Public templates with their author and community stats. Usage, fork and
+-- rating counts span all users, which RLS would hide, hence SECURITY DEFINER;
+-- only aggregates and the caller's own star and rating are returned.
+CREATE OR REPLACE FUNCTION public.get_template_gallery()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  category TEXT,
+  template_content JSONB,
+  version INTEGER,
+  user_id UUID,
+  author_name TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  usage_count BIGINT,
+  fork_count BIGINT,
+  star_count BIGINT,
+  rating_count BIGINT,
+  average_rating NUMERIC,
+  my_rating INTEGER,
+  is_starred BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    templates.id,
+    templates.name,
+    templates.description,
+    templates.category,
+    templates.template_content,
+    templates.version,
+    templates.user_id,
+    -- Sign-up falls back to the email as full_name; never show that to other users
+    COALESCE(NULLIF(profiles.full_name, profiles.email), 'Anonymous'),
+    templates.updated_at,
+    (SELECT COUNT(DISTINCT summaries.interview_id) FROM public.interview_summaries AS summaries
+      WHERE summaries.template_id = templates.id AND summaries.status = 'completed'),
+    (SELECT COUNT(*) FROM public.summary_templates AS forks WHERE forks.forked_from_id = templates.id),
+    (SELECT COUNT(*) FROM public.template_stars AS stars WHERE stars.template_id = templates.id),
+    (SELECT COUNT(*) FROM public.template_ratings AS ratings WHERE ratings.template_id = templates.id),
+    (SELECT ROUND(AVG(ratings.rating), 1) FROM public.template_ratings AS ratings WHERE ratings.template_id = templates.id),
+    (SELECT ratings.rating FROM public.template_ratings AS ratings
+      WHERE ratings.template_id = templates.id AND ratings.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.template_stars AS stars
+      WHERE stars.template_id = templates.id AND stars.user_id = auth.uid())
+  FROM public.summary_templates AS templates
+  LEFT JOIN public.user_profiles AS profiles ON profiles.user_id = templates.user_id
+  WHERE templates.is_public = TRUE
+  ORDER BY templates.category, templates.name;
+$$;
+
+CREATE INDEX idx_summary_templates_forked_from_id ON public.summary_templates(forked_from_id);
+CREATE INDEX idx_summary_templates_is_public ON public.summary_templates(is_public) WHERE is_public;
+CREATE INDEX idx_template_stars_user_id ON public.template_stars(user_id);
+CREATE INDEX idx_template_ratings_user_id ON public.template_ratings(user_id);
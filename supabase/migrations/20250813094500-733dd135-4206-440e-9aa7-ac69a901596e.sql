@@ -0,0 +1,212 @@
+-- Public share links: random tokens, scopes, expiry, revocation and an access log
+
+-- Tokens are generated by the database; 64 hex characters from two random UUIDs
+ALTER TABLE public.share_links
+ALTER COLUMN access_token SET DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+-- Scopes are cumulative: a comment link can also view, an edit link can also comment
+ALTER TABLE public.share_links
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT share_links_permissions_check
+  CHECK (permissions <@ ARRAY['view', 'comment', 'edit'] AND 'view' = ANY(permissions));
+
+-- Revoking a link sets revoked_at, so the access log stays attached to it
+CREATE POLICY "Users can update their own share links"
+ON public.share_links
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = share_links.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
+
+-- One row per time a share link was opened
+CREATE TABLE public.share_link_access_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_link_id UUID REFERENCES public.share_links(id) ON DELETE CASCADE NOT NULL,
+  viewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for anonymous visitors
+  ip_address TEXT,
+  user_agent TEXT,
+  accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on share_link_access_log
+ALTER TABLE public.share_link_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by get_shared_interview, so there are no write policies
+CREATE POLICY "Users can view access to their share links"
+ON public.share_link_access_log
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.share_links
+    JOIN public.interviews ON interviews.id = share_links.interview_id
+    WHERE share_links.id = share_link_access_log.share_link_id
+    AND interviews.user_id = auth.uid()
+  )
+);
+
+-- The link for a token if it is live and grants the scope, otherwise an error
+CREATE OR REPLACE FUNCTION public.active_share_link(p_token TEXT, p_scope TEXT)
+RETURNS public.share_links
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+BEGIN
+  SELECT * INTO link FROM public.share_links WHERE access_token = p_token;
+
+  IF NOT FOUND OR link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This share link does not exist or has been revoked';
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This share link has expired';
+  END IF;
+  -- A link without permissions allows nothing, rather than a NULL check passing
+  IF NOT COALESCE(p_scope = ANY(link.permissions), false) THEN
+    RAISE EXCEPTION 'This share link does not allow %', p_scope;
+  END IF;
+
+  RETURN link;
+END;
+$$;
+
+-- Everything the public share page shows, without requiring a login. Records
+-- the visit in the access log. Comments and the transcript are only included
+-- for links whose scope lets the visitor act on them.
+CREATE OR REPLACE FUNCTION public.get_shared_interview(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+  headers JSON := current_setting('request.headers', true)::json;
+  summary public.interview_summaries;
+  result JSONB;
+BEGIN
+  link := public.active_share_link(p_token, 'view');
+
+  INSERT INTO public.share_link_access_log (share_link_id, viewer_id, ip_address, user_agent)
+  VALUES (
+    link.id,
+    auth.uid(),
+    split_part(headers ->> 'x-forwarded-for', ',', 1),
+    headers ->> 'user-agent'
+  );
+
+  -- The latest analysis that completed
+  SELECT * INTO summary
+  FROM public.interview_summaries
+  WHERE interview_id = link.interview_id AND status = 'completed'
+  ORDER BY version DESC
+  LIMIT 1;
+
+  SELECT jsonb_build_object(
+    'permissions', to_jsonb(link.permissions),
+    'expires_at', link.expires_at,
+    'interview', jsonb_build_object(
+      'candidate_name', interviews.candidate_name,
+      'position_title', interviews.position_title,
+      'interview_date', interviews.interview_date,
+      'file_name', interviews.file_name
+    ),
+    'summary', CASE WHEN summary.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', summary.id,
+      'version', summary.version,
+      'created_at', summary.created_at,
+      'summary_content', summary.summary_content,
+      'template_sections', summary.template_sections,
+      'transcript_text', CASE WHEN 'edit' = ANY(link.permissions) THEN summary.transcript_text END
+    ) END,
+    'comments', CASE WHEN 'comment' = ANY(link.permissions) THEN COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', comments.id,
+        'comment_text', comments.comment_text,
+        'section_key', comments.section_key,
+        'created_at', comments.created_at,
+        -- Sign-up falls back to the email as full_name; never show that to visitors
+        'author_name', COALESCE(NULLIF(profiles.full_name, profiles.email), 'Anonymous')
+      ) ORDER BY comments.created_at)
+      FROM public.interview_comments AS comments
+      LEFT JOIN public.user_profiles AS profiles ON profiles.user_id = comments.user_id
+      WHERE comments.interview_id = link.interview_id
+    ), '[]'::jsonb) END
+  ) INTO result
+  FROM public.interviews
+  WHERE interviews.id = link.interview_id;
+
+  RETURN result;
+END;
+$$;
+
+-- Comments through a share link need a signed-in user to attribute them to
+CREATE OR REPLACE FUNCTION public.add_shared_interview_comment(p_token TEXT, p_comment_text TEXT, p_section_key TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+  comment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to comment';
+  END IF;
+  IF length(trim(p_comment_text)) = 0 THEN
+    RAISE EXCEPTION 'The comment is empty';
+  END IF;
+
+  link := public.active_share_link(p_token, 'comment');
+
+  INSERT INTO public.interview_comments (interview_id, user_id, comment_text, section_key)
+  VALUES (link.interview_id, auth.uid(), trim(p_comment_text), p_section_key)
+  RETURNING id INTO comment_id;
+
+  RETURN comment_id;
+END;
+$$;
+
+-- Corrects the transcript of the shared analysis through an edit link
+CREATE OR REPLACE FUNCTION public.update_shared_transcript(p_token TEXT, p_summary_id UUID, p_transcript_text TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to edit';
+  END IF;
+
+  link := public.active_share_link(p_token, 'edit');
+
+  UPDATE public.interview_summaries
+  SET transcript_text = p_transcript_text
+  WHERE id = p_summary_id
+  AND interview_id = link.interview_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Analysis not found';
+  END IF;
+END;
+$$;
+
+-- The share page is public, so visitors without an account call these too
+REVOKE EXECUTE ON FUNCTION public.active_share_link(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_shared_interview(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_shared_interview_comment(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_shared_transcript(TEXT, UUID, TEXT) TO authenticated;
+
+CREATE INDEX idx_share_links_interview_id ON public.share_links(interview_id);
+CREATE INDEX idx_share_link_access_log_share_link_id ON public.share_link_access_log(share_link_id, accessed_at DESC);
@@ -0,0 +1,114 @@
+-- Email invitations: each invitation carries its own share link, which only the
+-- invited address can open once they have signed in and accepted it
+
+CREATE TABLE public.interview_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID REFERENCES public.interviews(id) ON DELETE CASCADE NOT NULL,
+  share_link_id UUID REFERENCES public.share_links(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  message TEXT,
+  -- Sent in the email; different from the share link's token, which is only
+  -- handed out on acceptance
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on interview_invitations
+ALTER TABLE public.interview_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Created by the send-invite function and revoked through the share link, so
+-- owners only read them
+CREATE POLICY "Users can view invitations to their interviews"
+ON public.interview_invitations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE interviews.id = interview_invitations.interview_id
+    AND interviews.user_id = auth.uid()
+  )
+);
+
+-- Links behind an invitation only work for the account that accepted it
+CREATE OR REPLACE FUNCTION public.active_share_link(p_token TEXT, p_scope TEXT)
+RETURNS public.share_links
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+BEGIN
+  SELECT * INTO link FROM public.share_links WHERE access_token = p_token;
+
+  IF NOT FOUND OR link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This share link does not exist or has been revoked';
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This share link has expired';
+  END IF;
+  -- A link without permissions allows nothing, rather than a NULL check passing
+  IF NOT COALESCE(p_scope = ANY(link.permissions), false) THEN
+    RAISE EXCEPTION 'This share link does not allow %', p_scope;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.interview_invitations
+    WHERE share_link_id = link.id
+    AND accepted_by IS DISTINCT FROM auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'This interview was shared with someone else';
+  END IF;
+
+  RETURN link;
+END;
+$$;
+
+-- Accepts an invitation for the signed-in user, whose email must match the
+-- invited address, and returns the token of the share link it grants
+CREATE OR REPLACE FUNCTION public.accept_interview_invitation(p_token TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.interview_invitations;
+  link public.share_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invitation';
+  END IF;
+
+  SELECT * INTO invitation FROM public.interview_invitations WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation does not exist';
+  END IF;
+  -- IS DISTINCT FROM: accounts without an email (phone or anonymous sign-in) must not match
+  IF lower(invitation.email) IS DISTINCT FROM lower(auth.email()) THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that address to open it.', invitation.email;
+  END IF;
+  IF invitation.accepted_by IS NOT NULL AND invitation.accepted_by <> auth.uid() THEN
+    RAISE EXCEPTION 'This invitation has already been accepted by another account';
+  END IF;
+
+  UPDATE public.interview_invitations
+  SET accepted_by = auth.uid(),
+      accepted_at = COALESCE(accepted_at, now())
+  WHERE id = invitation.id;
+
+  SELECT * INTO link FROM public.share_links WHERE id = invitation.share_link_id;
+  -- Revoked or expired invitations fail here
+  link := public.active_share_link(link.access_token, 'view');
+
+  RETURN link.access_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_interview_invitation(TEXT) TO authenticated;
+
+CREATE INDEX idx_interview_invitations_interview_id ON public.interview_invitations(interview_id);
@@ -0,0 +1,34 @@
+-- Processing stages published by the upload flow and the edge functions, so the
+-- app can follow an interview through Realtime instead of guessing with timers
+
+ALTER TABLE public.interviews
+ADD COLUMN processing_stage TEXT
+  CHECK (processing_stage IN ('uploading', 'uploaded', 'transcribing', 'analyzing', 'saving', 'completed', 'failed')),
+ADD COLUMN processing_error TEXT, -- Why the interview failed; cleared when it moves on
+ADD COLUMN processing_stage_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill from the coarse status and, for interviews still in flight, their latest job
+UPDATE public.interviews
+SET processing_stage = CASE
+    WHEN interviews.status IN ('uploading', 'completed', 'failed') THEN interviews.status
+    WHEN latest_job.stage = 'transcription' AND latest_job.status = 'running' THEN 'transcribing'
+    WHEN latest_job.stage = 'analysis' AND latest_job.status = 'running' THEN 'analyzing'
+    ELSE 'uploaded'
+  END,
+  processing_error = CASE WHEN interviews.status = 'failed' THEN latest_job.last_error END,
+  processing_stage_at = interviews.updated_at
+FROM (
+  SELECT interviews.id AS interview_id, jobs.stage, jobs.status, jobs.last_error
+  FROM public.interviews
+  LEFT JOIN LATERAL (
+    SELECT stage, status, last_error
+    FROM public.processing_jobs
+    WHERE processing_jobs.interview_id = interviews.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) AS jobs ON true
+) AS latest_job
+WHERE latest_job.interview_id = interviews.id;
+
+-- Stream changes to subscribed clients; RLS still limits each user to their own interviews
+ALTER PUBLICATION supabase_realtime ADD TABLE public.interviews;
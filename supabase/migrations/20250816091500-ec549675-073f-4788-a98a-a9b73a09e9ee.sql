@@ -0,0 +1,26 @@
+-- Interviews keep the path of their file inside the private interview-audio
+-- bucket. The public URLs stored until now never worked against a private
+-- bucket; the app and the edge functions sign short-lived URLs from the path.
+
+ALTER TABLE public.interviews
+ADD COLUMN storage_path TEXT; -- e.g. "<user id>/<interview id>-call.mp3"
+
+-- Backfill from the stored object where it can be found by interview id, and
+-- otherwise from the tail of the old URL (older uploads were named
+-- "<user id>/<timestamp>.<ext>", which needs no URL decoding)
+UPDATE public.interviews
+SET storage_path = COALESCE(
+  (
+    SELECT objects.name
+    FROM storage.objects AS objects
+    WHERE objects.bucket_id = 'interview-audio'
+      AND objects.name LIKE interviews.user_id::text || '/' || interviews.id::text || '-%'
+    ORDER BY objects.created_at DESC
+    LIMIT 1
+  ),
+  substring(interviews.file_url FROM '/interview-audio/([^?]+)')
+)
+WHERE interviews.file_url IS NOT NULL;
+
+ALTER TABLE public.interviews
+DROP COLUMN file_url;